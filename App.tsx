@@ -1,229 +1,951 @@
-import React, { useState, useRef, useEffect, useCallback } from 'react';
+import React, { useState, useRef, useEffect } from 'react';
 import { v4 as uuidv4 } from 'uuid'; // Note: Since we can't install uuid in this prompt, I'll write a simple helper
-import { Camera } from 'lucide-react';
-import { generatePhotoCaption } from './services/geminiService';
-import { PhotoCard } from './components/PhotoCard';
-import { PhotoData, AppStatus } from './types';
-
-// Simple UUID generator since we assume standard env without extra packages
-const generateId = () => Math.random().toString(36).substring(2, 15) + Math.random().toString(36).substring(2, 15);
+import { MotionConfig } from 'framer-motion';
+import { Camera, ChevronDown, Presentation } from 'lucide-react';
+import { requestCaption } from './services/captionService';
+import { loadPhotos, syncPhotos, loadWalls, saveWalls } from './services/photoStorage';
+import { DEFAULT_WALL_NAME, createWall, getWallBackground, loadActiveWallId, saveActiveWallId, adoptOrphans, sendToWall, hangOnWall } from './services/walls';
+import { generateId } from './services/ids';
+import { PhotoCard, KEYBOARD_HELP_ID } from './components/PhotoCard';
+import { OptionPicker } from './components/OptionPicker';
+import { ExportMenu } from './components/ExportMenu';
+import { ImportButton } from './components/ImportButton';
+import { WallToolbar } from './components/WallToolbar';
+import { SearchBar } from './components/SearchBar';
+import { WallSwitcher } from './components/WallSwitcher';
+import { CameraControls } from './components/CameraControls';
+import { WallNavigator } from './components/WallNavigator';
+import { LiveShareButton } from './components/LiveShareButton';
+import { SlideshowPlayer } from './components/SlideshowPlayer';
+import { CAPTION_STYLES, DEFAULT_CAPTION_STYLE } from './services/captionStyles';
+import { FILM_STOCKS, DEFAULT_FILM_STOCK, applyFilmStock } from './services/filmStocks';
+import { ArrangeLayout, arrangePhotos, bringToFront, sendToBack, topZIndex, cardRect, rectsIntersect, boundingRect } from './services/wallLayout';
+import { loadCameraSettings, saveCameraSettings, listVideoDevices, openCamera, isFrontFacing, captureSize, captureFrame } from './services/cameraService';
+import { CAPTURE_MODES, SELF_TIMERS, BURST_COUNT, BURST_INTERVAL_MS, STRIP_INTERVAL_MS, MAX_STAGED_PHOTOS, timerSeconds } from './services/captureModes';
+import { decodeImageFile } from './services/imageUtils';
+import { readCaptureDate } from './services/exif';
+import { developDuration } from './services/development';
+import { effectiveLanguage } from './services/captionLanguages';
+import { STRIP_FRAME_COUNT, stripFrameSize, composeStrip } from './services/photoStrip';
+import { EMPTY_FILTER, FilterMode, PhotoFilter, isFilterActive, matchesFilter, popularTags } from './services/photoSearch';
+import { EMPTY_HISTORY, HistoryState, diffPhotos, recordEntry, undo, redo } from './services/history';
+import { SyncConnection, SyncStatus, connectSync } from './services/syncClient';
+import { opPhotoId } from './services/syncProtocol';
+import { createReplica, sharedPhotosOf, applyResolution, receiveOp, localOps, mergeSnapshot } from './services/wallSync';
+import { WallViewport, COMPACT_BREAKPOINT, ZOOM_STEP, initialViewport, loadViewports, saveViewports, fitViewport, screenToWall, screenRectToWall, zoomAt, panBy, pinch } from './services/wallViewport';
+import { PhotoData, AppStatus, CaptionStyleId, FilmStockId, Position, CameraSettings, CaptureMode, SelfTimer, WallData } from './types';
 
 const SHUTTER_SOUND_URL = "data:audio/wav;base64,UklGRjIAAABXQVZFZm10IBIAAAABAAEAQB8AAEAfAAABAAgAAABmYWN0BAAAAAAAAABkYXRhAAAAAA=="; // Placeholder, using a short click context usually requires a real file. 
 // Let's use a synthesized beep for "shutter" if possible, or just visual feedback.
 // For the sake of "Excellent Visual Aesthetics", we will rely on the animation heavily.
 
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Room the camera and the pickers around it take up at full size
+const CAMERA_FOOTPRINT = { width: 600, height: 560 };
+
+// Which wall edits count as undo steps, named for the undo button
+const undoLabelFor = (updates: Partial<PhotoData>): string | null => {
+  // Showing the caption in another language swaps in a kept translation; only the view changes
+  if ('caption' in updates && updates.translations) return null;
+  if ('caption' in updates) return 'captionStyle' in updates ? 'regenerate caption' : 'edit caption';
+  if ('rotation' in updates) return 'rotate';
+  if ('annotations' in updates) return 'annotate';
+  if ('position' in updates) return 'move';
+  return null;
+};
+
 function App() {
   const [status, setStatus] = useState<AppStatus>(AppStatus.IDLE);
   const [stream, setStream] = useState<MediaStream | null>(null);
   const [photos, setPhotos] = useState<PhotoData[]>([]);
-  const [stagedPhoto, setStagedPhoto] = useState<PhotoData | null>(null);
+  const [stagedPhotos, setStagedPhotos] = useState<PhotoData[]>([]); // Waiting in the camera slot, oldest first
+  const [captionStyle, setCaptionStyle] = useState<CaptionStyleId>(DEFAULT_CAPTION_STYLE);
+  const [filmStock, setFilmStock] = useState<FilmStockId>(DEFAULT_FILM_STOCK);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [groupDrag, setGroupDrag] = useState<{ leaderId: string, offset: Position } | null>(null);
+  const [marquee, setMarquee] = useState<{ start: Position, end: Position, base: Set<string> } | null>(null);
+  const [history, setHistory] = useState<HistoryState>(EMPTY_HISTORY);
+  const [cameraSettings, setCameraSettings] = useState<CameraSettings>(loadCameraSettings);
+  const [videoDevices, setVideoDevices] = useState<MediaDeviceInfo[]>([]);
+  const [captureMode, setCaptureMode] = useState<CaptureMode>('single');
+  const [selfTimer, setSelfTimer] = useState<SelfTimer>('off');
+  const [countdown, setCountdown] = useState<number | null>(null);
+  const [isCapturing, setIsCapturing] = useState(false); // A timer, burst or strip is under way
+  const [isDropTarget, setIsDropTarget] = useState(false); // Image files are being dragged over the camera
+  const [uploadMessage, setUploadMessage] = useState<string | null>(null);
+  const [announcement, setAnnouncement] = useState(''); // Read out by screen readers
+  const [filter, setFilter] = useState<PhotoFilter>(EMPTY_FILTER);
+  const [filterMode, setFilterMode] = useState<FilterMode>('highlight');
+  const [walls, setWalls] = useState<WallData[]>([]);
+  const [activeWallId, setActiveWallId] = useState<string>(() => loadActiveWallId() ?? '');
+  const [viewports, setViewports] = useState<Record<string, WallViewport>>(loadViewports); // Where each wall was last looked at
+  const [screenSize, setScreenSize] = useState({ width: window.innerWidth, height: window.innerHeight });
+  const [isCameraHidden, setIsCameraHidden] = useState(false); // Tucked away on small screens to uncover the wall
+  const [sync, setSync] = useState<{ status: SyncStatus, people: number }>({ status: 'offline', people: 0 });
+  const [isSlideshowOpen, setIsSlideshowOpen] = useState(false);
   
   const videoRef = useRef<HTMLVideoElement>(null);
-  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const persistedPhotosRef = useRef<PhotoData[] | null>(null); // null until the saved wall has loaded
+  const persistedWallsRef = useRef<WallData[] | null>(null);
+  const captureCancelledRef = useRef(false);
+  const captionRequestsRef = useRef(new Map<string, AbortController>()); // In-flight captions by photo id
   const shutterAudioRef = useRef<HTMLAudioElement>(new Audio('https://assets.mixkit.co/active_storage/sfx/2571/2571-preview.mp3')); // Camera shutter sound
+  const wallRef = useRef<HTMLDivElement>(null);
+  const panPointersRef = useRef(new Map<number, Position>()); // Fingers (or a panning mouse) down on the empty wall
+  const panGestureRef = useRef<{ start: WallViewport, from: Position[], moved: boolean } | null>(null);
+  const photosRef = useRef<PhotoData[]>([]); // Latest photos, for the sync callbacks
+  const syncReplicaRef = useRef(createReplica(generateId()));
+  // The shared wall's connection, and its photos as last sent or received (null until the room's snapshot)
+  const syncSessionRef = useRef<{ wallId: string, connection: SyncConnection, baseline: PhotoData[] | null } | null>(null);
 
-  // Initialize Camera
+  // Open the chosen camera, reopening whenever the device or resolution changes
   useEffect(() => {
+    let mediaStream: MediaStream | null = null;
+    let cancelled = false;
+
     const startCamera = async () => {
       try {
-        const mediaStream = await navigator.mediaDevices.getUserMedia({ 
-          video: { 
-            width: { ideal: 1080 },
-            height: { ideal: 1080 },
-            facingMode: "user" 
-          },
-          audio: false 
-        });
+        try {
+          mediaStream = await openCamera(cameraSettings);
+        } catch (err) {
+          // A remembered camera may have been unplugged; fall back to the default one
+          if (!cameraSettings.deviceId) throw err;
+          mediaStream = await openCamera({ ...cameraSettings, deviceId: undefined });
+        }
+        if (cancelled) {
+          mediaStream.getTracks().forEach(track => track.stop());
+          return;
+        }
         setStream(mediaStream);
         if (videoRef.current) {
           videoRef.current.srcObject = mediaStream;
         }
+        // Device labels are only available once access has been granted
+        setVideoDevices(await listVideoDevices());
         setStatus(AppStatus.CAMERA_READY);
       } catch (err) {
         console.error("Error accessing camera:", err);
-        setStatus(AppStatus.ERROR);
+        if (!cancelled) setStatus(AppStatus.ERROR);
       }
     };
 
+    setStatus(AppStatus.IDLE);
     startCamera();
 
     return () => {
-      if (stream) {
-        stream.getTracks().forEach(track => track.stop());
-      }
+      cancelled = true;
+      mediaStream?.getTracks().forEach(track => track.stop());
     };
     // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [cameraSettings.deviceId, cameraSettings.resolution]);
+
+  // Keep the camera list current as devices are plugged in or removed
+  useEffect(() => {
+    const refresh = () => listVideoDevices().then(setVideoDevices).catch(() => {});
+    navigator.mediaDevices?.addEventListener('devicechange', refresh);
+    return () => navigator.mediaDevices?.removeEventListener('devicechange', refresh);
+  }, []);
+
+  useEffect(() => {
+    saveCameraSettings(cameraSettings);
+  }, [cameraSettings]);
+
+  useEffect(() => {
+    saveViewports(viewports);
+  }, [viewports]);
+
+  useEffect(() => {
+    const handleResize = () => setScreenSize({ width: window.innerWidth, height: window.innerHeight });
+    window.addEventListener('resize', handleResize);
+    return () => window.removeEventListener('resize', handleResize);
+  }, []);
+
+  // Restore the saved walls and their photos
+  useEffect(() => {
+    const restore = (storedWalls: WallData[], stored: PhotoData[]) => {
+      // The very first run (or one from before walls existed) starts with a single wall
+      const restoredWalls = storedWalls.length > 0 ? storedWalls : [createWall(DEFAULT_WALL_NAME)];
+      const activeId = restoredWalls.some(w => w.id === activeWallId) ? activeWallId : restoredWalls[0].id;
+      persistedPhotosRef.current = stored;
+      persistedWallsRef.current = storedWalls;
+      setWalls(restoredWalls);
+      setActiveWallId(activeId);
+      // Keep anything dropped on the wall while storage was still loading
+      setPhotos(prev => adoptOrphans([...stored, ...prev.filter(p => !stored.some(s => s.id === p.id))], restoredWalls, activeId));
+    };
+
+    Promise.all([loadWalls(), loadPhotos()])
+      .then(([storedWalls, stored]) => restore(storedWalls, stored))
+      .catch(err => {
+        console.error("Failed to load saved photos:", err);
+        restore([], []);
+      });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
-  const takePhoto = useCallback(async () => {
-    if (status !== AppStatus.CAMERA_READY || stagedPhoto) return; // Prevent double shot if one is staging
+  // Save every change to the wall
+  useEffect(() => {
+    const previous = persistedPhotosRef.current;
+    if (!previous || previous === photos) return;
+    persistedPhotosRef.current = photos;
+    syncPhotos(previous, photos).catch(err => console.error("Failed to save photos:", err));
+  }, [photos]);
+
+  useEffect(() => {
+    const previous = persistedWallsRef.current;
+    if (!previous || previous === walls) return;
+    persistedWallsRef.current = walls;
+    saveWalls(walls).catch(err => console.error("Failed to save walls:", err));
+  }, [walls]);
+
+  useEffect(() => {
+    if (activeWallId) saveActiveWallId(activeWallId);
+  }, [activeWallId]);
+
+  const activeWall = walls.find(w => w.id === activeWallId);
+  // Cards live in wall coordinates; the viewport only changes how they're shown
+  const viewport = viewports[activeWallId] ?? initialViewport(screenSize.width);
+  const setViewport = (update: WallViewport | ((prev: WallViewport) => WallViewport)) => {
+    setViewports(prev => {
+      const current = prev[activeWallId] ?? initialViewport(window.innerWidth);
+      return { ...prev, [activeWallId]: typeof update === 'function' ? update(current) : update };
+    });
+  };
+
+  // The wheel scrolls the wall around; pinching a trackpad (or Ctrl+wheel) zooms it.
+  // Registered by hand because React's wheel listener can't prevent page zoom.
+  useEffect(() => {
+    const wall = wallRef.current;
+    if (!wall) return;
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      if (e.ctrlKey) {
+        setViewport(prev => zoomAt(prev, Math.exp(-e.deltaY / 200), { x: e.clientX, y: e.clientY }));
+      } else {
+        setViewport(prev => panBy(prev, { x: -e.deltaX, y: -e.deltaY }));
+      }
+    };
+    wall.addEventListener('wheel', handleWheel, { passive: false });
+    return () => wall.removeEventListener('wheel', handleWheel);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [activeWallId]);
+
+  photosRef.current = photos;
+
+  // A shared wall stays live while it's open: edits go to the relay server and
+  // everyone else's come back, merged field by field so concurrent drags converge
+  useEffect(() => {
+    const room = activeWall?.syncRoom;
+    if (!room) return;
+    const wallId = activeWallId;
+    const replica = syncReplicaRef.current;
+
+    const connection = connectSync(room, replica.clientId, {
+      onSnapshot: (snapshot, pending) => {
+        const local = sharedPhotosOf(photosRef.current, wallId);
+        const merged = mergeSnapshot(replica, snapshot, local, pending, wallId);
+        session.baseline = merged.photos;
+        setPhotos(prev => [...prev.filter(p => p.wallId !== wallId), ...merged.photos]);
+        merged.ops.forEach(connection.send);
+      },
+      onOp: (op) => {
+        if (!session.baseline) return;
+        const id = opPhotoId(op);
+        const resolution = receiveOp(replica, session.baseline, op);
+        if (resolution.effect === 'none') return;
+        // Updating the baseline too keeps the change from being sent straight back
+        session.baseline = applyResolution(session.baseline, id, resolution, wallId);
+        setPhotos(prev => applyResolution(prev, id, resolution, wallId));
+      },
+      onStatus: (status, people) => setSync({ status, people }),
+    });
+    const session = { wallId, connection, baseline: null as PhotoData[] | null };
+    syncSessionRef.current = session;
+
+    return () => {
+      connection.close();
+      syncSessionRef.current = null;
+      setSync({ status: 'offline', people: 0 });
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [activeWallId, activeWall?.syncRoom]);
+
+  // Send local changes to the shared wall, however they were made
+  useEffect(() => {
+    const session = syncSessionRef.current;
+    if (!session?.baseline) return;
+    const current = sharedPhotosOf(photos, session.wallId);
+    const ops = localOps(syncReplicaRef.current, session.baseline, current);
+    session.baseline = current;
+    ops.forEach(session.connection.send);
+  }, [photos]);
+
+  const wallPhotos = photos.filter(p => p.wallId === activeWallId);
+  const wallBackground = getWallBackground(activeWall?.background);
+
+  // Front cameras preview mirrored, like looking in a mirror
+  const isFrontCamera = stream ? isFrontFacing(stream) : true;
+
+  // Phones get a shrunken camera tucked into the corner
+  const isCompact = screenSize.width < COMPACT_BREAKPOINT;
+  const cameraInset = isCompact ? 8 : 64;
+  const cameraScale = Math.min(
+    1,
+    (screenSize.width - cameraInset * 2) / CAMERA_FOOTPRINT.width,
+    (screenSize.height - cameraInset * 2) / CAMERA_FOOTPRINT.height
+  );
+
+  // Search: null when no filter is set, otherwise the ids of the matching photos
+  const matchingIds = isFilterActive(filter)
+    ? new Set(wallPhotos.filter(p => matchesFilter(p, filter)).map(p => p.id))
+    : null;
+  const visiblePhotos = matchingIds && filterMode === 'isolate' ? wallPhotos.filter(p => matchingIds.has(p.id)) : wallPhotos;
+
+  // Hidden photos can't stay selected, or bulk actions would reach cards nobody can see
+  useEffect(() => {
+    if (!matchingIds || filterMode !== 'isolate') return;
+    setSelectedIds(prev => {
+      const next = new Set([...prev].filter(id => matchingIds.has(id)));
+      return next.size === prev.size ? prev : next;
+    });
+  }, [filter, filterMode]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  // Puts a freshly taken photo in the camera slot and asks for its caption
+  const stagePhoto = async (imageData: string, details: Partial<PhotoData>) => {
+    const newId = generateId();
+    const takenAt = new Date(details.timestamp ?? Date.now()); // Uploads keep their original capture time
+    const style = details.captionStyle ?? captionStyle;
+    const durationMs = developDuration(cameraSettings.developSpeed);
+    const language = effectiveLanguage(activeWall?.captionLanguage);
+
+    const newPhoto: PhotoData = {
+      id: newId,
+      imageData,
+      caption: '',
+      timestamp: takenAt.getTime(),
+      dateString: takenAt.toLocaleDateString(undefined, { year: 'numeric', month: 'short', day: 'numeric' }),
+      isDeveloping: durationMs > 0,
+      // Starts now even for uploads, whose timestamp is when they were originally taken
+      development: { startedAt: Date.now(), durationMs },
+      isStaged: true,
+      position: { x: 0, y: 0 }, // Relative to camera initially
+      rotation: (Math.random() * 6) - 3, // Slight random tilt
+      captionStatus: 'pending',
+      ...details
+    };
+
+    setStagedPhotos(prev => [...prev, newPhoto]);
+    setAnnouncement(`${newPhoto.kind === 'strip' ? 'Photo strip' : 'Photo'} in the camera. Press Enter on it to put it on the wall.`);
+
+    // Generate Caption via the configured provider
+    const controller = new AbortController();
+    captionRequestsRef.current.set(newId, controller);
+    const result = await requestCaption(imageData, style, { signal: controller.signal, language });
+    captionRequestsRef.current.delete(newId);
+    if (result.status === 'success' || result.error !== 'cancelled') {
+      const updates: Partial<PhotoData> = result.status === 'success'
+        ? { caption: result.caption, captionLanguage: language, tags: result.tags, captionStatus: 'ready', captionError: undefined }
+        : { captionStatus: 'failed', captionError: result.error };
+      // Update the photo (whether it's staged or on wall)
+      setStagedPhotos(prev => prev.map(p => p.id === newId ? { ...p, ...updates } : p));
+      setPhotos(prev => prev.map(p => p.id === newId ? { ...p, ...updates } : p));
+    }
+  };
+
+  // One click of the shutter: flash, sound, and a cropped frame developed in the chosen film
+  const shootFrame = (width: number, height: number): HTMLCanvasElement | null => {
+    const video = videoRef.current;
+    if (!video) return null;
 
     setStatus(AppStatus.TAKING_PHOTO);
-    
+    setTimeout(() => setStatus(prev => prev === AppStatus.TAKING_PHOTO ? AppStatus.CAMERA_READY : prev), 150);
+
     // Play sound
     if (shutterAudioRef.current) {
       shutterAudioRef.current.currentTime = 0;
       shutterAudioRef.current.play().catch(() => {});
     }
 
-    if (videoRef.current && canvasRef.current) {
-      const video = videoRef.current;
-      const canvas = canvasRef.current;
-      
-      // Set canvas to square to match aspect logic if needed, but we want portrait crop for the card
-      // The card is 3:4. Let's crop the center 3:4 from the video.
-      const targetWidth = 600;
-      const targetHeight = 800;
-      canvas.width = targetWidth;
-      canvas.height = targetHeight;
-      
-      const ctx = canvas.getContext('2d');
-      if (ctx) {
-        // Calculate crop to center the video
-        const videoRatio = video.videoWidth / video.videoHeight;
-        const targetRatio = targetWidth / targetHeight;
-        
-        let sourceWidth, sourceHeight, sourceX, sourceY;
-
-        if (videoRatio > targetRatio) {
-          sourceHeight = video.videoHeight;
-          sourceWidth = sourceHeight * targetRatio;
-          sourceX = (video.videoWidth - sourceWidth) / 2;
-          sourceY = 0;
-        } else {
-          sourceWidth = video.videoWidth;
-          sourceHeight = sourceWidth / targetRatio;
-          sourceX = 0;
-          sourceY = (video.videoHeight - sourceHeight) / 2;
-        }
+    return developFrame(video, width, height);
+  };
 
-        // Flip context horizontally for mirror effect
-        ctx.translate(targetWidth, 0);
-        ctx.scale(-1, 1);
-
-        ctx.drawImage(
-          video,
-          sourceX, sourceY, sourceWidth, sourceHeight,
-          0, 0, targetWidth, targetHeight
-        );
-
-        const imageData = canvas.toDataURL('image/png');
-        const newId = generateId();
-        const now = new Date();
-        
-        const newPhoto: PhotoData = {
-          id: newId,
-          imageData,
-          caption: '',
-          timestamp: Date.now(),
-          dateString: now.toLocaleDateString(undefined, { year: 'numeric', month: 'short', day: 'numeric' }),
-          isDeveloping: true,
-          isStaged: true,
-          position: { x: 0, y: 0 }, // Relative to camera initially
-          rotation: (Math.random() * 6) - 3 // Slight random tilt
-        };
-
-        setStagedPhoto(newPhoto);
-        setStatus(AppStatus.CAMERA_READY);
+  // Crops a frame and develops it in the chosen film
+  const developFrame = (source: HTMLVideoElement | HTMLImageElement | ImageBitmap, width: number, height: number): HTMLCanvasElement => {
+    const frame = captureFrame(source, width, height);
+    const ctx = frame.getContext('2d');
+    if (ctx) applyFilmStock(ctx, width, height, filmStock);
+    return frame;
+  };
 
-        // Generate Caption via Gemini
-        try {
-          const caption = await generatePhotoCaption(imageData);
-          // Update the photo (whether it's staged or on wall)
-          const updateCaption = (pid: string, text: string) => {
-             setStagedPhoto(prev => prev && prev.id === pid ? { ...prev, caption: text } : prev);
-             setPhotos(prev => prev.map(p => p.id === pid ? { ...p, caption: text } : p));
-          };
-          updateCaption(newId, caption);
-        } catch (e) {
-          console.error(e);
+  // Uploaded or dropped images go through the same crop, film and captioning as a live shot
+  const handleImageFiles = async (files: File[]) => {
+    const images = files.filter(file => file.type.startsWith('image/'));
+    const room = MAX_STAGED_PHOTOS - stagedPhotos.length;
+    if (images.length === 0) {
+      setUploadMessage("Those files aren't images.");
+      return;
+    }
+    if (room <= 0) {
+      setUploadMessage('The camera is full. Drag some photos to the wall first.');
+      return;
+    }
+    setUploadMessage(images.length > room ? `Only ${room} more photo${room === 1 ? '' : 's'} fit in the camera.` : null);
+
+    const { width, height } = captureSize(cameraSettings.aspect, cameraSettings.resolution);
+    const failed: string[] = [];
+    for (const file of images.slice(0, room)) {
+      try {
+        const [source, takenAt] = await Promise.all([decodeImageFile(file), readCaptureDate(file)]);
+        const frame = developFrame(source, width, height);
+        if ('close' in source) source.close();
+        stagePhoto(frame.toDataURL('image/png'), {
+          captionStyle,
+          filmStock,
+          mirrored: false,
+          aspect: cameraSettings.aspect,
+          // Files without EXIF dates usually still carry the time they were saved
+          timestamp: (takenAt ?? new Date(file.lastModified || Date.now())).getTime(),
+        });
+      } catch (err) {
+        console.error(`Failed to read ${file.name}:`, err);
+        failed.push(file.name);
+      }
+    }
+    if (failed.length > 0) {
+      setUploadMessage(`Couldn't read ${failed.join(', ')}.`);
+    }
+  };
+
+  const handleCameraDragOver = (e: React.DragEvent<HTMLDivElement>) => {
+    if (!e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'copy';
+    setIsDropTarget(true);
+  };
+
+  const handleCameraDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    if (!e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    setIsDropTarget(false);
+    handleImageFiles(Array.from(e.dataTransfer.files));
+  };
+
+  // Runs the self-timer, then takes one shot, a burst, or a four-frame strip.
+  // Pressing the shutter again during the countdown calls it off.
+  const takePhoto = async () => {
+    if (isCapturing) {
+      if (countdown !== null) captureCancelledRef.current = true;
+      return;
+    }
+    if (status !== AppStatus.CAMERA_READY || stagedPhotos.length >= MAX_STAGED_PHOTOS) return;
+
+    setIsCapturing(true);
+    captureCancelledRef.current = false;
+    // Settings are fixed at the moment the shutter is pressed
+    const details: Partial<PhotoData> = {
+      captionStyle,
+      filmStock,
+      mirrored: isFrontCamera && cameraSettings.mirrorSelfies,
+    };
+
+    try {
+      for (let remaining = timerSeconds(selfTimer); remaining > 0; remaining--) {
+        setCountdown(remaining);
+        await sleep(1000);
+        if (captureCancelledRef.current) return;
+      }
+      setCountdown(null);
+
+      const { width, height } = captureSize(cameraSettings.aspect, cameraSettings.resolution);
+      if (captureMode === 'strip') {
+        const frameSize = stripFrameSize(cameraSettings.resolution);
+        const frames: HTMLCanvasElement[] = [];
+        for (let i = 0; i < STRIP_FRAME_COUNT; i++) {
+          if (i > 0) await sleep(STRIP_INTERVAL_MS);
+          const frame = shootFrame(frameSize.width, frameSize.height);
+          if (frame) frames.push(frame);
+        }
+        if (frames.length === STRIP_FRAME_COUNT) {
+          stagePhoto(composeStrip(frames), { ...details, kind: 'strip' });
+        }
+      } else {
+        // Never overfill the slot, however many shots a burst would take
+        const shots = captureMode === 'burst' ? Math.min(BURST_COUNT, MAX_STAGED_PHOTOS - stagedPhotos.length) : 1;
+        for (let i = 0; i < shots; i++) {
+          if (i > 0) await sleep(BURST_INTERVAL_MS);
+          const frame = shootFrame(width, height);
+          if (frame) stagePhoto(frame.toDataURL('image/png'), { ...details, aspect: cameraSettings.aspect });
         }
       }
+    } finally {
+      setCountdown(null);
+      setIsCapturing(false);
     }
-  }, [status, stagedPhoto]);
+  };
+
+  // Applies a user action to the wall and records it so it can be undone
+  const commitPhotos = (label: string, update: (prev: PhotoData[]) => PhotoData[]) => {
+    const changes = diffPhotos(photos, update(photos));
+    setHistory(prev => recordEntry(prev, { label, changes }));
+    setPhotos(update);
+  };
+
+  // Runs a layout helper over the active wall only, leaving other walls untouched
+  const onActiveWall = (update: (wallPhotos: PhotoData[]) => PhotoData[]) => (prev: PhotoData[]) => {
+    const updated = new Map(update(prev.filter(p => p.wallId === activeWallId)).map(p => [p.id, p]));
+    return prev.map(p => updated.get(p.id) ?? p);
+  };
 
   const handlePhotoUpdate = (id: string, updates: Partial<PhotoData>) => {
-    if (stagedPhoto && stagedPhoto.id === id) {
-      setStagedPhoto({ ...stagedPhoto, ...updates });
+    setStagedPhotos(prev => prev.map(p => p.id === id ? { ...p, ...updates } : p));
+    const apply = (prev: PhotoData[]) => prev.map(p => p.id === id ? { ...p, ...updates } : p);
+    const label = undoLabelFor(updates);
+    if (label && photos.some(p => p.id === id)) {
+      commitPhotos(label, apply);
+    } else {
+      // Bookkeeping such as development or caption status isn't an undo step
+      setPhotos(apply);
     }
-    setPhotos(prev => prev.map(p => p.id === id ? { ...p, ...updates } : p));
   };
 
   const handlePhotoDelete = (id: string) => {
-    if (stagedPhoto && stagedPhoto.id === id) {
-      setStagedPhoto(null);
+    captionRequestsRef.current.get(id)?.abort();
+    if (stagedPhotos.some(p => p.id === id)) {
+      setStagedPhotos(prev => prev.filter(p => p.id !== id));
     } else {
-      setPhotos(prev => prev.filter(p => p.id !== id));
+      commitPhotos('delete', prev => prev.filter(p => p.id !== id));
+      setSelectedIds(prev => {
+        const next = new Set(prev);
+        next.delete(id);
+        return next;
+      });
     }
   };
 
   // When staged photo is dropped on the wall
   const handleDragRelease = (id: string, point: { x: number, y: number }) => {
-    if (stagedPhoto && stagedPhoto.id === id) {
+    const stagedPhoto = stagedPhotos.find(p => p.id === id);
+    if (stagedPhoto) {
       const unstaged = { 
         ...stagedPhoto, 
         isStaged: false, 
-        position: point 
+        position: screenToWall(viewport, point),
+        wallId: activeWallId
       };
-      setPhotos(prev => [...prev, unstaged]);
-      setStagedPhoto(null);
+      commitPhotos('add', prev => [...prev, { ...unstaged, zIndex: topZIndex(prev.filter(p => p.wallId === activeWallId)) }]);
+      setStagedPhotos(prev => prev.filter(p => p.id !== id));
+    }
+  };
+
+  // Shift-click toggles; a plain click picks just this card unless it's already part of the group
+  const handleSelect = (id: string, additive: boolean) => {
+    setSelectedIds(prev => {
+      if (additive) {
+        const next = new Set(prev);
+        if (next.has(id)) next.delete(id); else next.add(id);
+        return next;
+      }
+      return prev.has(id) ? prev : new Set([id]);
+    });
+  };
+
+  const handleGroupDrag = (id: string, offset: Position) => {
+    if (selectedIds.has(id) && selectedIds.size > 1) {
+      setGroupDrag({ leaderId: id, offset });
     }
   };
 
+  // A wall drag finished: move the card, and the rest of the selection with it
+  const handlePhotoMove = (id: string, offset: Position) => {
+    const moved = selectedIds.has(id) ? selectedIds : new Set([id]);
+    commitPhotos('move', prev => prev.map(p => moved.has(p.id)
+      ? { ...p, position: { x: p.position.x + offset.x, y: p.position.y + offset.y } }
+      : p
+    ));
+    setGroupDrag(null);
+  };
+
+  const handleDeleteSelected = () => {
+    selectedIds.forEach(id => captionRequestsRef.current.get(id)?.abort());
+    commitPhotos('delete', prev => prev.filter(p => !selectedIds.has(p.id)));
+    setSelectedIds(new Set());
+  };
+
+  const handleArrange = (layout: ArrangeLayout) => {
+    commitPhotos('arrange', onActiveWall(wallPhotos => {
+      const targets = selectedIds.size > 0 ? wallPhotos.filter(p => selectedIds.has(p.id)) : wallPhotos;
+      // Rows stop at the right edge of what's on screen
+      return arrangePhotos(targets, layout, screenToWall(viewport, { x: window.innerWidth - 48, y: 0 }).x);
+    }));
+  };
+
+  // Restarts the pan gesture from the pointers now down, e.g. when a second finger lands
+  const beginPanGesture = () => {
+    const pointers = panPointersRef.current;
+    panGestureRef.current = pointers.size === 0 ? null : {
+      start: viewport,
+      from: [...pointers.values()],
+      moved: panGestureRef.current?.moved ?? false,
+    };
+  };
+
+  // On empty wall, a mouse drag draws a selection marquee; one finger, the
+  // middle button or an Alt-drag pans the wall, and two fingers pinch-zoom it
+  const handleWallPointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (e.target !== e.currentTarget) return;
+    if (e.pointerType !== 'mouse' || e.button === 1 || e.altKey) {
+      e.preventDefault(); // No middle-click autoscroll
+      e.currentTarget.setPointerCapture(e.pointerId);
+      panPointersRef.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+      beginPanGesture();
+      return;
+    }
+    const point = { x: e.clientX, y: e.clientY };
+    setMarquee({ start: point, end: point, base: e.shiftKey ? selectedIds : new Set() });
+  };
+
+  const handleWallPointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const pointers = panPointersRef.current;
+    const gesture = panGestureRef.current;
+    if (!gesture || !pointers.has(e.pointerId)) return;
+    pointers.set(e.pointerId, { x: e.clientX, y: e.clientY });
+
+    const points = [...pointers.values()];
+    if (points.length >= 2 && gesture.from.length >= 2) {
+      gesture.moved = true;
+      setViewport(pinch(gesture.start, [gesture.from[0], gesture.from[1]], [points[0], points[1]]));
+    } else if (points.length === 1) {
+      const delta = { x: points[0].x - gesture.from[0].x, y: points[0].y - gesture.from[0].y };
+      if (Math.hypot(delta.x, delta.y) > 8) gesture.moved = true;
+      if (gesture.moved) setViewport(panBy(gesture.start, delta));
+    }
+  };
+
+  const handleWallPointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    const pointers = panPointersRef.current;
+    if (!pointers.delete(e.pointerId)) return;
+    // A tap on empty wall clears the selection, as Escape does on a keyboard
+    if (pointers.size === 0 && !panGestureRef.current?.moved) setSelectedIds(new Set());
+    beginPanGesture();
+  };
+
+  useEffect(() => {
+    if (!marquee) return;
+
+    const handleMove = (e: PointerEvent) => {
+      setMarquee(prev => prev && { ...prev, end: { x: e.clientX, y: e.clientY } });
+    };
+    const handleUp = () => setMarquee(null);
+
+    window.addEventListener('pointermove', handleMove);
+    window.addEventListener('pointerup', handleUp);
+    return () => {
+      window.removeEventListener('pointermove', handleMove);
+      window.removeEventListener('pointerup', handleUp);
+    };
+  }, [marquee !== null]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  const marqueeRect = marquee && {
+    x: Math.min(marquee.start.x, marquee.end.x),
+    y: Math.min(marquee.start.y, marquee.end.y),
+    width: Math.abs(marquee.end.x - marquee.start.x),
+    height: Math.abs(marquee.end.y - marquee.start.y),
+  };
+
+  useEffect(() => {
+    if (!marquee || !marqueeRect) return;
+    const next = new Set(marquee.base);
+    const area = screenRectToWall(viewport, marqueeRect);
+    visiblePhotos.forEach(p => {
+      if (rectsIntersect(cardRect(p), area)) next.add(p.id);
+    });
+    setSelectedIds(next);
+  }, [marquee]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  const applyHistory = (result: [PhotoData[], HistoryState] | null) => {
+    if (!result) return;
+    const [next, nextHistory] = result;
+    // Photos taken off the wall by undo/redo stop waiting for their captions
+    const remaining = new Set(next.map(p => p.id));
+    photos.forEach(p => {
+      if (!remaining.has(p.id)) captionRequestsRef.current.get(p.id)?.abort();
+    });
+    // A photo restored after its wall was deleted comes back here instead
+    setPhotos(adoptOrphans(next, walls, activeWallId));
+    setHistory(nextHistory);
+  };
+
+  const handleSwitchWall = (id: string) => {
+    setActiveWallId(id);
+    setSelectedIds(new Set());
+    setGroupDrag(null);
+  };
+
+  const handleCreateWall = (name: string) => {
+    const wall = createWall(name, activeWall?.background);
+    setWalls(prev => [...prev, wall]);
+    handleSwitchWall(wall.id);
+  };
+
+  const updateWall = (id: string, updates: Partial<WallData>) => {
+    setWalls(prev => prev.map(w => w.id === id ? { ...w, ...updates } : w));
+  };
+
+  // Only empty walls can go, so no photo is ever lost with its wall
+  const handleDeleteWall = (id: string) => {
+    if (walls.length < 2 || photos.some(p => p.wallId === id)) return;
+    const remaining = walls.filter(w => w.id !== id);
+    setWalls(remaining);
+    setViewports(({ [id]: _, ...rest }) => rest);
+    if (id === activeWallId) handleSwitchWall(remaining[0].id);
+  };
+
+  const handleSendToWall = (wallId: string, copy: boolean) => {
+    const target = walls.find(w => w.id === wallId);
+    commitPhotos(`${copy ? 'copy' : 'move'} to ${target?.name ?? 'wall'}`, prev => sendToWall(prev, selectedIds, wallId, copy));
+    if (!copy) setSelectedIds(new Set());
+  };
+
+  const handleFitAll = () => {
+    setViewport(visiblePhotos.length > 0 ? fitViewport(boundingRect(visiblePhotos), screenSize) : initialViewport(screenSize.width));
+  };
+
+  const handleUndo = () => applyHistory(undo(photos, history));
+  const handleRedo = () => applyHistory(redo(photos, history));
+
+  // Keyboard: Space fires the shutter, Delete removes the selection, Escape clears it,
+  // Ctrl/Cmd+Z undoes and Ctrl/Cmd+Shift+Z redoes, +/- zoom, 0 resets the zoom and F fits everything
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (isSlideshowOpen) return; // The slideshow has its own keys
+      const target = e.target as HTMLElement;
+      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT') return;
+      if (e.key === ' ' && target === document.body) {
+        // Only when nothing else has focus; focused buttons and cards use Space themselves
+        e.preventDefault();
+        takePhoto();
+      } else if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'z') {
+        e.preventDefault();
+        if (e.shiftKey) handleRedo(); else handleUndo();
+      } else if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'y') {
+        e.preventDefault();
+        handleRedo();
+      } else if ((e.key === 'Delete' || e.key === 'Backspace') && selectedIds.size > 0) {
+        e.preventDefault();
+        handleDeleteSelected();
+      } else if (e.key === 'Escape') {
+        setSelectedIds(new Set());
+      } else if (!e.ctrlKey && !e.metaKey && !e.altKey) {
+        const centre = { x: window.innerWidth / 2, y: window.innerHeight / 2 };
+        if (e.key === '+' || e.key === '=') setViewport(prev => zoomAt(prev, ZOOM_STEP, centre));
+        else if (e.key === '-') setViewport(prev => zoomAt(prev, 1 / ZOOM_STEP, centre));
+        else if (e.key === '0') setViewport(prev => zoomAt(prev, 1 / prev.scale, centre));
+        else if (e.key.toLowerCase() === 'f') handleFitAll();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  const selectedPhotos = photos.filter(p => selectedIds.has(p.id));
+
   return (
-    <div className="relative w-screen h-screen bg-retro-bg overflow-hidden font-sans selection:bg-yellow-200">
+    <div
+      className="relative w-screen h-screen overflow-hidden font-sans selection:bg-yellow-200 transition-[background] duration-500"
+      style={{ background: wallBackground.background }}
+    >
       
       {/* Title */}
-      <div className="absolute top-8 left-0 w-full text-center z-10">
-        <h1 className="font-handwritten text-5xl text-gray-800 drop-shadow-md opacity-90">
+      <div className="absolute top-8 left-0 w-full text-center z-10 hidden md:block">
+        <h1 className={`font-handwritten text-5xl drop-shadow-md opacity-90 ${wallBackground.isDark ? 'text-gray-100' : 'text-gray-800'}`}>
           Bao Retro Camera
         </h1>
-        <p className="font-handwritten text-gray-500 mt-2 text-lg">Capture the moment, let AI tell the story.</p>
+        <p className={`font-handwritten mt-2 text-lg ${wallBackground.isDark ? 'text-gray-300' : 'text-gray-500'}`}>Capture the moment, let AI tell the story.</p>
+      </div>
+
+      {/* Import / Export */}
+      <div className="absolute top-4 right-4 md:top-8 md:right-8 z-30 flex gap-2">
+        <ImportButton
+          photos={wallPhotos}
+          onImport={(imported) => commitPhotos('import', prev => {
+            const elsewhere = prev.filter(p => p.wallId !== activeWallId);
+            return [...elsewhere, ...hangOnWall(imported, activeWallId, elsewhere)];
+          })}
+        />
+        <ExportMenu photos={selectedPhotos.length > 0 ? selectedPhotos : wallPhotos} />
+        <button
+          onClick={() => setIsSlideshowOpen(true)}
+          disabled={visiblePhotos.length === 0}
+          className="flex items-center gap-2 bg-white/90 px-4 py-2 rounded-full shadow-md font-handwritten text-gray-700 hover:bg-yellow-50 disabled:opacity-40 transition-colors"
+          title={selectedPhotos.length > 0 ? 'Play the selected photos full screen' : 'Play this wall full screen'}
+        >
+          <Presentation size={16} />
+          Slideshow
+        </button>
+        <LiveShareButton
+          room={activeWall?.syncRoom}
+          status={sync.status}
+          people={sync.people}
+          onJoin={(room) => updateWall(activeWallId, { syncRoom: room })}
+          onLeave={() => updateWall(activeWallId, { syncRoom: undefined })}
+        />
       </div>
 
+      {/* Search & Filter */}
+      <SearchBar
+        filter={filter}
+        onChange={setFilter}
+        mode={filterMode}
+        onModeChange={setFilterMode}
+        matchCount={matchingIds?.size ?? wallPhotos.length}
+        totalCount={wallPhotos.length}
+        suggestions={popularTags(wallPhotos)}
+        className="absolute top-16 md:top-32 left-1/2 -translate-x-1/2 w-[calc(100%-2rem)] md:w-auto z-30"
+      />
+
+      {/* Wall Switcher */}
+      <WallSwitcher
+        walls={walls}
+        activeWallId={activeWallId}
+        photos={photos}
+        onSwitch={handleSwitchWall}
+        onCreate={handleCreateWall}
+        onRename={(id, name) => updateWall(id, { name })}
+        onChangeBackground={(id, background) => updateWall(id, { background })}
+        onChangeLanguage={(id, captionLanguage) => updateWall(id, { captionLanguage })}
+        onDelete={handleDeleteWall}
+        className="absolute top-4 left-4 md:top-8 md:left-8 z-40"
+      />
+
+      {/* Selection & Arrangement */}
+      <WallToolbar
+        selectedCount={selectedPhotos.length}
+        totalCount={wallPhotos.length}
+        onBringToFront={() => commitPhotos('bring to front', onActiveWall(wallPhotos => bringToFront(wallPhotos, selectedIds)))}
+        onSendToBack={() => commitPhotos('send to back', onActiveWall(wallPhotos => sendToBack(wallPhotos, selectedIds)))}
+        onDeleteSelected={handleDeleteSelected}
+        onClearSelection={() => setSelectedIds(new Set())}
+        onArrange={handleArrange}
+        otherWalls={walls.filter(w => w.id !== activeWallId)}
+        onSendToWall={handleSendToWall}
+        onSetCover={() => updateWall(activeWallId, { coverPhotoId: selectedPhotos[0]?.id })}
+        undoLabel={history.past[history.past.length - 1]?.label}
+        redoLabel={history.future[history.future.length - 1]?.label}
+        onUndo={handleUndo}
+        onRedo={handleRedo}
+        className="absolute top-40 left-4 md:top-24 md:left-8 z-30"
+      />
+
+      {/* Zoom & Minimap */}
+      <WallNavigator
+        photos={visiblePhotos}
+        selectedIds={selectedIds}
+        viewport={viewport}
+        screen={screenSize}
+        onChange={setViewport}
+        onFitAll={handleFitAll}
+        className="absolute bottom-16 right-4 md:bottom-auto md:top-24 md:right-8 z-30"
+      />
+
       {/* Instructions */}
-      <div className="absolute bottom-8 right-8 z-10 text-right font-handwritten text-gray-600 max-w-xs">
-        <p className="mb-2">1. Click the shutter button.</p>
+      <div className={`absolute bottom-8 right-8 z-10 text-right font-handwritten max-w-xs hidden md:block ${wallBackground.isDark ? 'text-gray-300' : 'text-gray-600'}`}>
+        <p className="mb-2">1. Click the shutter button, or drop photos on the camera.</p>
         <p className="mb-2">2. Wait for the photo to eject.</p>
         <p className="mb-2">3. Drag the photo to the wall.</p>
-        <p>4. Hover over text to edit/regenerate.</p>
+        <p className="mb-2">4. Hover over text to edit/regenerate, or long-press a photo for its menu.</p>
+        <p className="mb-2">5. Shift-click or drag on the wall to pick several.</p>
+        <p className="mb-2">6. Scroll, pinch or Alt-drag to move around; the minimap shows where you are.</p>
+        <p id={KEYBOARD_HELP_ID}>
+          Keys: Space takes a photo, +/- zoom, F fits every photo. Tab to a photo, then arrows move it, Space picks it, Enter edits the caption, R rotates, A draws on it and Delete removes it.
+        </p>
       </div>
 
+      {/* Screen reader announcements */}
+      <div className="sr-only" aria-live="polite">{announcement}</div>
+
       {/* The Wall (Area for dropped photos) */}
-      <div className="absolute inset-0 z-0">
-        {photos.map(photo => (
-          <PhotoCard 
-            key={photo.id}
-            photo={photo}
-            onUpdate={handlePhotoUpdate}
-            onDelete={handlePhotoDelete}
+      <div
+        ref={wallRef}
+        className="absolute inset-0 z-0 touch-none"
+        onPointerDown={handleWallPointerDown}
+        onPointerMove={handleWallPointerMove}
+        onPointerUp={handleWallPointerUp}
+        onPointerCancel={handleWallPointerUp}
+        role="region"
+        aria-label={`${activeWall?.name ?? 'Photo'} wall, ${visiblePhotos.length} photo${visiblePhotos.length === 1 ? '' : 's'}`}
+      >
+        {/* Panned and zoomed; drags are converted back to wall units so cards stay under the pointer */}
+        <MotionConfig transformPagePoint={point => ({ x: point.x / viewport.scale, y: point.y / viewport.scale })}>
+          <div
+            className="absolute top-0 left-0 origin-top-left"
+            style={{ transform: `translate(${viewport.x}px, ${viewport.y}px) scale(${viewport.scale})` }}
+          >
+            {visiblePhotos.map(photo => (
+              <PhotoCard 
+                key={photo.id}
+                photo={photo}
+                onUpdate={handlePhotoUpdate}
+                onDelete={handlePhotoDelete}
+                isSelected={selectedIds.has(photo.id)}
+                searchHighlight={matchingIds && filterMode === 'highlight' ? (matchingIds.has(photo.id) ? 'match' : 'dimmed') : undefined}
+                groupOffset={groupDrag && groupDrag.leaderId !== photo.id && selectedIds.has(photo.id) ? groupDrag.offset : undefined}
+                onSelect={handleSelect}
+                onDrag={handleGroupDrag}
+                onMove={handlePhotoMove}
+                captionLanguage={activeWall?.captionLanguage}
+              />
+            ))}
+          </div>
+        </MotionConfig>
+
+        {/* Marquee */}
+        {marqueeRect && (
+          <div
+            className="absolute border-2 border-blue-400 bg-blue-200/20 pointer-events-none"
+            style={{ left: marqueeRect.x, top: marqueeRect.y, width: marqueeRect.width, height: marqueeRect.height, zIndex: 20000 }}
           />
-        ))}
+        )}
       </div>
 
       {/* The Retro Camera Container */}
       <div 
-        className="fixed z-20 select-none"
+        className={`fixed z-20 select-none rounded-3xl origin-bottom-left transition-[box-shadow,transform] duration-300 ${isDropTarget ? 'ring-4 ring-yellow-300 ring-offset-4 ring-offset-transparent' : ''}`}
         style={{ 
-          bottom: '64px', 
-          left: '64px', 
+          bottom: `${cameraInset + (isCompact ? 56 * cameraScale : 0)}px`, // Leaves room for the caption picker below
+          left: `${cameraInset}px`, 
           width: '450px', 
-          height: '450px' 
+          height: '450px',
+          transform: `${isCameraHidden ? 'translateY(calc(100% + 160px)) ' : ''}scale(${cameraScale})`,
+        }}
+        aria-hidden={isCameraHidden || undefined}
+        onDragOver={handleCameraDragOver}
+        onDragLeave={(e) => {
+          if (!e.currentTarget.contains(e.relatedTarget as Node)) setIsDropTarget(false);
         }}
+        onDrop={handleCameraDrop}
       >
-        {/* Staged Photo (Ejecting) - Rendered BEHIND camera body visually by z-index, but interacts above */}
-        {stagedPhoto && (
-          <div className="absolute top-0 left-[50%] -translate-x-1/2 w-0 h-0 z-10">
-             {/* Using a wrapper to position the absolute framer component relative to camera center top */}
-             <PhotoCard
-                photo={stagedPhoto}
-                onUpdate={handlePhotoUpdate}
-                onDelete={handlePhotoDelete}
-                onDragRelease={handleDragRelease}
-                className="origin-top"
-             />
-          </div>
-        )}
+        {/* Staged Photos (Ejecting) - Rendered BEHIND camera body visually by z-index, but interacts above.
+            The oldest sits on top and later ones peek out beside it. Drags are scaled with the camera. */}
+        <MotionConfig transformPagePoint={point => ({ x: point.x / cameraScale, y: point.y / cameraScale })}>
+          {[...stagedPhotos].reverse().map(stagedPhoto => (
+            <div
+              key={stagedPhoto.id}
+              className="absolute top-0 left-[50%] -translate-x-1/2 w-0 h-0 z-10"
+              style={{ marginLeft: stagedPhotos.indexOf(stagedPhoto) * 16 }}
+            >
+               {/* Using a wrapper to position the absolute framer component relative to camera center top */}
+               <PhotoCard
+                  photo={stagedPhoto}
+                  onUpdate={handlePhotoUpdate}
+                  onDelete={handlePhotoDelete}
+                  onDragRelease={handleDragRelease}
+                  captionLanguage={activeWall?.captionLanguage}
+                  className="origin-top"
+               />
+            </div>
+          ))}
+        </MotionConfig>
 
         {/* Camera Body Image */}
         <img 
@@ -246,12 +968,18 @@ function App() {
         >
           <video 
             ref={videoRef} 
+            aria-label="Camera viewfinder"
             autoPlay 
             playsInline 
             muted 
-            className="w-full h-full object-cover transform -scale-x-100"
+            className={`w-full h-full object-cover transform ${isFrontCamera ? '-scale-x-100' : ''}`}
           />
-          {status !== AppStatus.CAMERA_READY && (
+          {countdown !== null && (
+            <div className="absolute inset-0 flex items-center justify-center bg-black/30 text-white font-handwritten text-5xl pointer-events-none" role="timer" aria-live="assertive">
+              {countdown}
+            </div>
+          )}
+          {status !== AppStatus.CAMERA_READY && status !== AppStatus.TAKING_PHOTO && (
             <div className="absolute inset-0 flex items-center justify-center bg-gray-900 text-white text-xs text-center">
               {status === AppStatus.ERROR ? "Camera Error" : "Loading..."}
             </div>
@@ -260,7 +988,7 @@ function App() {
 
         {/* Shutter Button Click Area */}
         <button
-          className="absolute z-30 rounded-full active:scale-95 transition-transform focus:outline-none"
+          className="absolute z-30 rounded-full active:scale-95 transition-transform focus:outline-none focus-visible:ring-4 focus-visible:ring-yellow-300"
           style={{
             bottom: '40%',
             left: '18%',
@@ -271,18 +999,94 @@ function App() {
             // border: '1px solid red' // Debugging
           }}
           onClick={takePhoto}
-          disabled={!!stagedPhoto}
-          title="Take Photo"
+          disabled={!isCapturing && stagedPhotos.length >= MAX_STAGED_PHOTOS}
+          title={countdown !== null ? "Cancel timer" : "Take Photo (Space)"}
+          aria-label={countdown !== null ? `Cancel self-timer, ${countdown} seconds left` : 'Take photo'}
+          aria-keyshortcuts="Space"
+        />
+
+        {/* Caption Style Picker */}
+        <OptionPicker
+          options={CAPTION_STYLES}
+          value={captionStyle}
+          onChange={setCaptionStyle}
+          title="Caption style"
+          className="absolute -bottom-12 left-0 w-full z-30"
+        />
+
+        {/* Film Stock Picker */}
+        <OptionPicker
+          options={FILM_STOCKS}
+          value={filmStock}
+          onChange={setFilmStock}
+          title="Film"
+          className="absolute top-1/2 -translate-y-1/2 -right-36 w-32 flex-col items-stretch z-30"
+        />
+
+        {/* Capture Mode & Self-Timer */}
+        <div className="absolute -top-10 left-0 flex flex-col items-start gap-1 z-30">
+          <OptionPicker
+            options={CAPTURE_MODES}
+            value={captureMode}
+            onChange={setCaptureMode}
+            title="Mode"
+            className="justify-start"
+          />
+          <OptionPicker
+            options={SELF_TIMERS}
+            value={selfTimer}
+            onChange={setSelfTimer}
+            title="Self-timer"
+            className="justify-start"
+          />
+        </div>
+
+        {/* Camera Device & Format */}
+        <CameraControls
+          settings={cameraSettings}
+          devices={videoDevices}
+          activeDeviceId={stream?.getVideoTracks()[0]?.getSettings().deviceId}
+          onChange={setCameraSettings}
+          onUpload={handleImageFiles}
+          className="absolute top-0 -right-36 z-30"
         />
 
+        {uploadMessage && (
+          <p
+            role="alert"
+            className="absolute -bottom-20 left-0 w-full text-center text-xs text-red-500 z-30"
+            onClick={() => setUploadMessage(null)}
+          >
+            {uploadMessage}
+          </p>
+        )}
+
         {/* Flash Effect Overlay */}
         {status === AppStatus.TAKING_PHOTO && (
           <div className="absolute inset-0 bg-white opacity-50 rounded-3xl z-40 animate-ping pointer-events-none" />
         )}
       </div>
 
-      {/* Hidden Canvas for Capture */}
-      <canvas ref={canvasRef} className="hidden" />
+      {/* Camera Toggle (small screens, where the camera covers most of the wall) */}
+      {isCompact && (
+        <button
+          onClick={() => setIsCameraHidden(prev => !prev)}
+          className="fixed bottom-4 right-4 z-30 flex items-center gap-1 bg-white/90 rounded-full shadow-md px-3 py-2 font-handwritten text-sm text-gray-700"
+          aria-expanded={!isCameraHidden}
+        >
+          {isCameraHidden ? <Camera size={16} /> : <ChevronDown size={16} />}
+          {isCameraHidden ? 'Show camera' : 'Hide camera'}
+        </button>
+      )}
+
+      {/* Slideshow of the selection, or of what's showing on the wall */}
+      {isSlideshowOpen && (
+        <SlideshowPlayer
+          photos={selectedPhotos.length > 0 ? selectedPhotos : visiblePhotos}
+          onClose={() => setIsSlideshowOpen(false)}
+        />
+      )}
+
     </div>
   );
 }
@@ -0,0 +1,190 @@
+import React, { useState } from 'react';
+import { Pencil, Smile, StickyNote, Eraser, Undo2, Check } from 'lucide-react';
+import { Annotation, AnnotationTool, Position } from '../types';
+import { generateId } from '../services/ids';
+import {
+  INK_COLORS, STICKERS, PEN_WIDTH, STICKER_SIZE, NOTE_SIZE, MAX_NOTE_LENGTH,
+  annotationAt, doodlePath, simplifyStroke,
+} from '../services/annotations';
+
+interface AnnotationEditorProps {
+  annotations: Annotation[];
+  width: number; // Card size in CSS pixels
+  height: number;
+  onChange: (annotations: Annotation[]) => void; // Each finished stroke, sticker or note
+  onDone: () => void;
+}
+
+const TOOL_ICONS: { id: AnnotationTool; label: string; icon: React.ReactNode }[] = [
+  { id: 'pen', label: 'Draw', icon: <Pencil size={14} /> },
+  { id: 'sticker', label: 'Sticker', icon: <Smile size={14} /> },
+  { id: 'note', label: 'Note', icon: <StickyNote size={14} /> },
+  { id: 'eraser', label: 'Erase', icon: <Eraser size={14} /> },
+];
+
+const toolClass = (active: boolean) =>
+  `p-1.5 rounded-full transition-colors ${active ? 'bg-gray-800 text-white' : 'text-gray-600 hover:bg-yellow-50'}`;
+
+// Slight random tilt, like the cards themselves
+const tilt = () => Math.round((Math.random() - 0.5) * 20);
+
+/**
+ * Edit mode for a card's annotations: draws over the whole card, photo and border alike.
+ */
+export const AnnotationEditor: React.FC<AnnotationEditorProps> = ({ annotations, width, height, onChange, onDone }) => {
+  const [tool, setTool] = useState<AnnotationTool>('pen');
+  const [color, setColor] = useState(INK_COLORS[0]);
+  const [sticker, setSticker] = useState(STICKERS[0]);
+  const [stroke, setStroke] = useState<Position[] | null>(null); // The line being drawn
+  const [draftNote, setDraftNote] = useState<{ position: Position, text: string } | null>(null);
+
+  // offsetX/Y are measured inside the card's own tilted and zoomed frame
+  const pointFrom = (e: React.PointerEvent<HTMLDivElement>): Position => ({
+    x: e.nativeEvent.offsetX / e.currentTarget.offsetWidth,
+    y: e.nativeEvent.offsetY / e.currentTarget.offsetHeight,
+  });
+
+  const add = (annotation: Annotation) => onChange([...annotations, annotation]);
+
+  const commitNote = () => {
+    if (draftNote?.text.trim()) {
+      add({ id: generateId(), type: 'note', text: draftNote.text.trim(), color, position: draftNote.position, size: NOTE_SIZE, rotation: tilt() });
+    }
+    setDraftNote(null);
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.stopPropagation();
+    const point = pointFrom(e);
+    if (tool === 'pen') {
+      e.currentTarget.setPointerCapture(e.pointerId);
+      setStroke([point]);
+    } else if (tool === 'sticker') {
+      add({ id: generateId(), type: 'sticker', emoji: sticker, position: point, size: STICKER_SIZE, rotation: tilt() });
+    } else if (tool === 'note') {
+      commitNote();
+      setDraftNote({ position: point, text: '' });
+    } else {
+      const id = annotationAt(annotations, point, width / height);
+      if (id) onChange(annotations.filter(a => a.id !== id));
+    }
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!stroke) return;
+    const point = pointFrom(e);
+    setStroke(prev => prev && [...prev, point]);
+  };
+
+  const finishStroke = () => {
+    if (!stroke) return;
+    add({ id: generateId(), type: 'doodle', color, width: PEN_WIDTH, points: simplifyStroke(stroke) });
+    setStroke(null);
+  };
+
+  return (
+    <div
+      className="absolute inset-0 z-20"
+      onKeyDown={(e) => {
+        if (e.key === 'Escape' && !draftNote) {
+          e.stopPropagation();
+          onDone();
+        }
+      }}
+    >
+      {/* Drawing surface */}
+      <div
+        className={`absolute inset-0 touch-none ${tool === 'eraser' ? 'cursor-cell' : 'cursor-crosshair'}`}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={finishStroke}
+        onPointerCancel={finishStroke}
+      />
+      {stroke && (
+        <svg className="absolute inset-0 pointer-events-none" viewBox={`0 0 ${width} ${height}`} aria-hidden="true">
+          <path d={doodlePath(stroke, width, height)} stroke={color} strokeWidth={PEN_WIDTH * width} strokeLinecap="round" strokeLinejoin="round" fill="none" />
+        </svg>
+      )}
+
+      {draftNote && (
+        <input
+          value={draftNote.text}
+          onChange={(e) => setDraftNote({ ...draftNote, text: e.target.value })}
+          onKeyDown={(e) => {
+            e.stopPropagation();
+            if (e.key === 'Enter') commitNote();
+            if (e.key === 'Escape') setDraftNote(null);
+          }}
+          onBlur={commitNote}
+          onPointerDown={(e) => e.stopPropagation()}
+          maxLength={MAX_NOTE_LENGTH}
+          autoFocus
+          aria-label="Note text"
+          placeholder="Write a note"
+          className="absolute -translate-x-1/2 -translate-y-1/2 w-32 bg-yellow-50 border-b border-gray-300 font-handwritten text-sm text-center focus:outline-none"
+          style={{ left: `${draftNote.position.x * 100}%`, top: `${draftNote.position.y * 100}%`, color }}
+        />
+      )}
+
+      {/* Tools */}
+      <div
+        className="absolute top-1 left-1 right-1 flex flex-col gap-1 bg-white/95 rounded-lg shadow-md p-1"
+        role="toolbar"
+        aria-label="Annotation tools"
+        onPointerDown={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between">
+          <div className="flex gap-0.5" role="group" aria-label="Tool">
+            {TOOL_ICONS.map(({ id, label, icon }) => (
+              <button key={id} onClick={() => setTool(id)} className={toolClass(tool === id)} title={label} aria-label={label} aria-pressed={tool === id}>
+                {icon}
+              </button>
+            ))}
+          </div>
+          <div className="flex gap-0.5">
+            <button
+              onClick={() => onChange(annotations.slice(0, -1))}
+              disabled={annotations.length === 0}
+              className={`${toolClass(false)} disabled:opacity-40`}
+              title="Remove the last one"
+              aria-label="Remove the last annotation"
+            >
+              <Undo2 size={14} />
+            </button>
+            <button onClick={onDone} className="p-1.5 rounded-full text-green-600 hover:bg-green-50" title="Done" aria-label="Done annotating">
+              <Check size={14} />
+            </button>
+          </div>
+        </div>
+
+        {tool === 'sticker' ? (
+          <div className="flex flex-wrap gap-0.5" role="group" aria-label="Sticker">
+            {STICKERS.map(emoji => (
+              <button
+                key={emoji}
+                onClick={() => setSticker(emoji)}
+                className={`w-6 h-6 rounded-full text-sm ${sticker === emoji ? 'bg-yellow-100 ring-1 ring-yellow-400' : 'hover:bg-yellow-50'}`}
+                aria-pressed={sticker === emoji}
+              >
+                {emoji}
+              </button>
+            ))}
+          </div>
+        ) : tool !== 'eraser' && (
+          <div className="flex gap-1 px-1" role="group" aria-label="Ink colour">
+            {INK_COLORS.map(ink => (
+              <button
+                key={ink}
+                onClick={() => setColor(ink)}
+                className={`w-4 h-4 rounded-full ${color === ink ? 'ring-2 ring-offset-1 ring-gray-400' : ''}`}
+                style={{ backgroundColor: ink }}
+                aria-label={`Ink ${ink}`}
+                aria-pressed={color === ink}
+              />
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,56 @@
+import React from 'react';
+import { Annotation } from '../types';
+import { doodlePath } from '../services/annotations';
+
+interface AnnotationLayerProps {
+  annotations: Annotation[];
+  width: number; // Card size in CSS pixels
+  height: number;
+  className?: string;
+}
+
+// Doodles, stickers and notes drawn over a card. Downloads skip it and draw
+// the same annotations onto their canvas instead, which html2canvas can't do for SVG.
+export const AnnotationLayer: React.FC<AnnotationLayerProps> = ({ annotations, width, height, className }) => (
+  <svg
+    className={`absolute inset-0 pointer-events-none ${className ?? ''}`}
+    width={width}
+    height={height}
+    viewBox={`0 0 ${width} ${height}`}
+    aria-hidden="true"
+    data-html2canvas-ignore
+  >
+    {annotations.map(annotation => {
+      if (annotation.type === 'doodle') {
+        return (
+          <path
+            key={annotation.id}
+            d={doodlePath(annotation.points, width, height)}
+            stroke={annotation.color}
+            strokeWidth={annotation.width * width}
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            fill="none"
+          />
+        );
+      }
+      const x = annotation.position.x * width;
+      const y = annotation.position.y * height;
+      return (
+        <text
+          key={annotation.id}
+          x={x}
+          y={y}
+          transform={`rotate(${annotation.rotation} ${x} ${y})`}
+          textAnchor="middle"
+          dominantBaseline="central"
+          fontSize={annotation.size * width}
+          fill={annotation.type === 'note' ? annotation.color : undefined}
+          className={annotation.type === 'note' ? 'font-handwritten' : undefined}
+        >
+          {annotation.type === 'note' ? annotation.text : annotation.emoji}
+        </text>
+      );
+    })}
+  </svg>
+);
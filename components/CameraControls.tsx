@@ -0,0 +1,119 @@
+import React, { useRef, useState } from 'react';
+import { ImagePlus, Settings2, SwitchCamera } from 'lucide-react';
+import { CameraSettings } from '../types';
+import { ASPECTS, RESOLUTIONS } from '../services/cameraService';
+import { DEVELOP_SPEEDS } from '../services/development';
+import { OptionPicker } from './OptionPicker';
+
+interface CameraControlsProps {
+  settings: CameraSettings;
+  devices: MediaDeviceInfo[];
+  activeDeviceId?: string; // The device actually streaming, which may differ from the saved choice
+  onChange: (settings: CameraSettings) => void;
+  onUpload: (files: File[]) => void; // Existing images to put through the camera
+  className?: string;
+}
+
+export const CameraControls: React.FC<CameraControlsProps> = ({ settings, devices, activeDeviceId, onChange, onUpload, className }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  // Step through the available cameras, e.g. front -> back on a phone
+  const switchCamera = () => {
+    if (devices.length < 2) return;
+    const index = devices.findIndex(device => device.deviceId === activeDeviceId);
+    onChange({ ...settings, deviceId: devices[(index + 1) % devices.length].deviceId });
+  };
+
+  const buttonClass = "bg-white/90 p-2 rounded-full shadow-md hover:bg-yellow-50 text-gray-700 transition-colors disabled:opacity-40";
+
+  return (
+    <div className={`flex flex-col items-start gap-2 ${className ?? ''}`}>
+      <div className="flex gap-2">
+        <button onClick={switchCamera} disabled={devices.length < 2} className={buttonClass} title="Switch camera">
+          <SwitchCamera size={16} />
+        </button>
+        <button onClick={() => setIsOpen(open => !open)} className={buttonClass} title="Camera settings" aria-expanded={isOpen}>
+          <Settings2 size={16} />
+        </button>
+        <button onClick={() => inputRef.current?.click()} className={buttonClass} title="Upload photos">
+          <ImagePlus size={16} />
+        </button>
+        <input
+          ref={inputRef}
+          type="file"
+          accept="image/*"
+          multiple
+          className="hidden"
+          onChange={(e) => {
+            const files = Array.from(e.target.files ?? []);
+            e.target.value = ''; // Let the same files be picked again
+            if (files.length > 0) onUpload(files);
+          }}
+        />
+      </div>
+
+      {isOpen && (
+        <div className="w-72 bg-white rounded-xl shadow-xl p-3 flex flex-col gap-3 font-handwritten text-gray-700">
+          <label className="flex flex-col gap-1 text-sm">
+            Camera
+            <select
+              value={activeDeviceId ?? ''}
+              onChange={(e) => onChange({ ...settings, deviceId: e.target.value || undefined })}
+              className="font-sans text-xs border border-gray-300 rounded-md p-1 bg-white"
+            >
+              {devices.length === 0 && <option value="">Default camera</option>}
+              {devices.map((device, i) => (
+                <option key={device.deviceId} value={device.deviceId}>
+                  {device.label || `Camera ${i + 1}`}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <div className="flex flex-col gap-1 text-sm">
+            Shape
+            <OptionPicker
+              options={ASPECTS}
+              value={settings.aspect}
+              onChange={(aspect) => onChange({ ...settings, aspect })}
+              title="Shape"
+              className="justify-start"
+            />
+          </div>
+
+          <div className="flex flex-col gap-1 text-sm">
+            Resolution
+            <OptionPicker
+              options={RESOLUTIONS}
+              value={settings.resolution}
+              onChange={(resolution) => onChange({ ...settings, resolution })}
+              title="Resolution"
+              className="justify-start"
+            />
+          </div>
+
+          <div className="flex flex-col gap-1 text-sm">
+            Developing time
+            <OptionPicker
+              options={DEVELOP_SPEEDS}
+              value={settings.developSpeed}
+              onChange={(developSpeed) => onChange({ ...settings, developSpeed })}
+              title="Developing time"
+              className="justify-start"
+            />
+          </div>
+
+          <label className="flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={settings.mirrorSelfies}
+              onChange={(e) => onChange({ ...settings, mirrorSelfies: e.target.checked })}
+            />
+            Keep selfies mirrored like the preview
+          </label>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,69 @@
+import React, { useState } from 'react';
+import { Download, Loader2 } from 'lucide-react';
+import { PhotoData } from '../types';
+import { exportPhotos, ExportFormat } from '../services/exportService';
+
+interface ExportMenuProps {
+  photos: PhotoData[];
+  className?: string;
+}
+
+const FORMATS: { id: ExportFormat; label: string; hint: string }[] = [
+  { id: 'zip', label: 'ZIP of photos', hint: 'Framed PNGs with a manifest of captions' },
+  { id: 'contactSheet', label: 'Contact sheet', hint: 'One image of the wall as laid out' },
+  { id: 'pdf', label: 'Printable PDF', hint: 'Six Polaroids per A4 page' },
+  { id: 'archive', label: 'Wall archive', hint: 'Everything, to back up or open in another browser' },
+];
+
+export const ExportMenu: React.FC<ExportMenuProps> = ({ photos, className }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [busyFormat, setBusyFormat] = useState<ExportFormat | null>(null);
+
+  const handleExport = async (format: ExportFormat) => {
+    setBusyFormat(format);
+    try {
+      await exportPhotos(photos, format);
+      setIsOpen(false);
+    } catch (err) {
+      console.error("Failed to export photos", err);
+    } finally {
+      setBusyFormat(null);
+    }
+  };
+
+  return (
+    <div className={`relative ${className ?? ''}`}>
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        disabled={photos.length === 0}
+        className="flex items-center gap-2 bg-white/90 px-4 py-2 rounded-full shadow-md font-handwritten text-gray-700 hover:bg-yellow-50 disabled:opacity-40 transition-colors"
+        title="Export photos"
+        aria-haspopup="menu"
+        aria-expanded={isOpen}
+      >
+        <Download size={16} />
+        Export ({photos.length})
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-60 bg-white rounded-xl shadow-xl p-2 flex flex-col gap-1" role="menu" aria-label="Export format">
+          {FORMATS.map(format => (
+            <button
+              key={format.id}
+              onClick={() => handleExport(format.id)}
+              disabled={busyFormat !== null}
+              role="menuitem"
+              className="text-left px-3 py-2 rounded-lg hover:bg-yellow-50 disabled:opacity-60 transition-colors"
+            >
+              <span className="flex items-center gap-2 font-handwritten text-gray-800">
+                {format.label}
+                {busyFormat === format.id && <Loader2 size={14} className="animate-spin" />}
+              </span>
+              <span className="block text-xs text-gray-400">{format.hint}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,83 @@
+import React, { useRef, useState } from 'react';
+import { Upload } from 'lucide-react';
+import { PhotoData } from '../types';
+import { ArchiveError, ImportMode, importPhotos, readArchive } from '../services/wallArchive';
+
+interface ImportButtonProps {
+  photos: PhotoData[];
+  onImport: (photos: PhotoData[]) => void;
+  className?: string;
+}
+
+export const ImportButton: React.FC<ImportButtonProps> = ({ photos, onImport, className }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [pending, setPending] = useState<PhotoData[] | null>(null); // Read, waiting for merge/replace choice
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+
+  const applyImport = (imported: PhotoData[], mode: ImportMode) => {
+    const result = importPhotos(photos, imported, mode);
+    onImport(result.photos);
+    setPending(null);
+
+    const notes = [`Added ${result.added} photo${result.added === 1 ? '' : 's'}`];
+    if (result.skipped) notes.push(`${result.skipped} already on the wall`);
+    if (result.renamed) notes.push(`${result.renamed} given new ids`);
+    setMessage({ text: notes.join(', ') + '.', isError: false });
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Let the same file be picked again
+    if (!file) return;
+
+    setMessage(null);
+    try {
+      const imported = await readArchive(file);
+      if (photos.length === 0) {
+        applyImport(imported, 'replace');
+      } else {
+        setPending(imported);
+      }
+    } catch (err) {
+      console.error("Failed to import wall archive", err);
+      setMessage({
+        text: err instanceof ArchiveError ? err.message : "Couldn't read that archive.",
+        isError: true,
+      });
+    }
+  };
+
+  return (
+    <div className={`relative ${className ?? ''}`}>
+      <button
+        onClick={() => inputRef.current?.click()}
+        className="flex items-center gap-2 bg-white/90 px-4 py-2 rounded-full shadow-md font-handwritten text-gray-700 hover:bg-yellow-50 transition-colors"
+        title="Import a wall archive"
+      >
+        <Upload size={16} />
+        Import
+      </button>
+      <input ref={inputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleFile} />
+
+      {pending && (
+        <div className="absolute right-0 mt-2 w-64 bg-white rounded-xl shadow-xl p-3 font-handwritten text-gray-700">
+          <p className="mb-2">Add {pending.length} photo{pending.length === 1 ? '' : 's'} to this wall, or replace it?</p>
+          <div className="flex gap-2 justify-end">
+            <button onClick={() => setPending(null)} className="px-2 text-gray-400 hover:text-gray-600">Cancel</button>
+            <button onClick={() => applyImport(pending, 'replace')} className="px-3 py-1 rounded-full border border-red-300 text-red-500 hover:bg-red-50">Replace</button>
+            <button onClick={() => applyImport(pending, 'merge')} className="px-3 py-1 rounded-full bg-gray-800 text-white hover:bg-gray-700">Merge</button>
+          </div>
+        </div>
+      )}
+
+      {message && !pending && (
+        <p
+          className={`absolute right-0 mt-2 w-64 text-right text-xs ${message.isError ? 'text-red-500' : 'text-gray-500'}`}
+          onClick={() => setMessage(null)}
+        >
+          {message.text}
+        </p>
+      )}
+    </div>
+  );
+};
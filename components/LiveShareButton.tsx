@@ -0,0 +1,109 @@
+import React, { useState } from 'react';
+import { Radio, Users, Loader2, WifiOff } from 'lucide-react';
+import { generateId } from '../services/ids';
+import { SyncStatus } from '../services/syncClient';
+
+interface LiveShareButtonProps {
+  room?: string; // The room this wall is shared in, if any
+  status: SyncStatus;
+  people: number; // Including you
+  onJoin: (room: string) => void;
+  onLeave: () => void;
+  className?: string;
+}
+
+const MAX_ROOM_LENGTH = 32;
+
+// Room codes are typed on phones and read out loud, so keep them simple
+const cleanRoom = (text: string) => text.trim().toLowerCase().replace(/[^a-z0-9-]/g, '').slice(0, MAX_ROOM_LENGTH);
+
+const STATUS_TEXT: Record<SyncStatus, string> = {
+  live: 'Live',
+  connecting: 'Connecting…',
+  offline: 'Offline, retrying',
+};
+
+export const LiveShareButton: React.FC<LiveShareButtonProps> = ({ room, status, people, onJoin, onLeave, className }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [draft, setDraft] = useState('');
+
+  const open = () => {
+    setDraft(room ?? generateId().slice(0, 6));
+    setIsOpen(o => !o);
+  };
+
+  const handleJoin = (e: React.FormEvent) => {
+    e.preventDefault();
+    const code = cleanRoom(draft);
+    if (!code) return;
+    onJoin(code);
+    setIsOpen(false);
+  };
+
+  const StatusIcon = status === 'live' ? Users : status === 'connecting' ? Loader2 : WifiOff;
+
+  return (
+    <div className={`relative ${className ?? ''}`}>
+      <button
+        onClick={open}
+        className={`flex items-center gap-2 px-4 py-2 rounded-full shadow-md font-handwritten transition-colors ${
+          room ? 'bg-red-500 text-white hover:bg-red-600' : 'bg-white/90 text-gray-700 hover:bg-yellow-50'
+        }`}
+        title={room ? `Shared live in room "${room}"` : 'Share this wall live'}
+        aria-haspopup="dialog"
+        aria-expanded={isOpen}
+      >
+        <Radio size={16} />
+        {room ? (
+          <>
+            <StatusIcon size={14} className={status === 'connecting' ? 'animate-spin' : ''} />
+            {status === 'live' ? people : ''}
+          </>
+        ) : 'Live'}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-64 bg-white rounded-xl shadow-xl p-3 flex flex-col gap-2 font-handwritten text-gray-700" role="dialog" aria-label="Share this wall live">
+          {room ? (
+            <>
+              <p>
+                Room <span className="font-bold select-all">{room}</span>
+                <span className="block text-xs text-gray-400 font-sans" aria-live="polite">
+                  {STATUS_TEXT[status]}{status === 'live' ? ` · ${people} ${people === 1 ? 'person' : 'people'} here` : ''}
+                </span>
+              </p>
+              <button
+                onClick={() => { onLeave(); setIsOpen(false); }}
+                className="px-3 py-2 rounded-lg bg-gray-100 hover:bg-gray-200 transition-colors"
+              >
+                Stop sharing
+              </button>
+            </>
+          ) : (
+            <form onSubmit={handleJoin} className="flex flex-col gap-2">
+              <label htmlFor="live-room" className="text-sm">
+                Room code
+                <span className="block text-xs text-gray-400 font-sans">Everyone on the same code sees the same wall</span>
+              </label>
+              <input
+                id="live-room"
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                maxLength={MAX_ROOM_LENGTH}
+                autoFocus
+                className="px-3 py-2 rounded-lg border border-gray-200 font-sans text-sm focus:outline-none focus:ring-2 focus:ring-yellow-300"
+              />
+              <button
+                type="submit"
+                disabled={!cleanRoom(draft)}
+                className="px-3 py-2 rounded-lg bg-red-500 text-white hover:bg-red-600 disabled:opacity-40 transition-colors"
+              >
+                Join
+              </button>
+            </form>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,37 @@
+import React from 'react';
+
+interface PickerOption<T extends string> {
+  id: T;
+  label: string;
+}
+
+interface OptionPickerProps<T extends string> {
+  options: PickerOption<T>[];
+  value: T;
+  onChange: (value: T) => void;
+  title: string; // Describes what is being picked, e.g. "Caption style"
+  className?: string;
+}
+
+// Row of handwritten chips used for the camera's settings
+export const OptionPicker = <T extends string>({ options, value, onChange, title, className }: OptionPickerProps<T>) => {
+  return (
+    <div className={`flex flex-wrap justify-center gap-1 ${className ?? ''}`} role="group" aria-label={title}>
+      {options.map(option => (
+        <button
+          key={option.id}
+          onClick={() => onChange(option.id)}
+          aria-pressed={option.id === value}
+          className={`font-handwritten text-sm px-3 py-0.5 rounded-full shadow-sm border transition-colors ${
+            option.id === value
+              ? 'bg-gray-800 text-white border-gray-800'
+              : 'bg-white/80 text-gray-700 border-gray-300 hover:bg-yellow-50'
+          }`}
+          title={`${title}: ${option.label}`}
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+  );
+};
@@ -1,15 +1,56 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { motion, useAnimation } from 'framer-motion';
-import { Download, Trash2, Pencil, RefreshCw, Check, X } from 'lucide-react';
+import { motion, useAnimation, PanInfo } from 'framer-motion';
+import { Download, Trash2, Pencil, RefreshCw, Check, X, Palette, RotateCcw, RotateCw, SquareCheck, Brush, Languages, Loader2 } from 'lucide-react';
 import html2canvas from 'html2canvas';
-import { PhotoData } from '../types';
-import { generatePhotoCaption } from '../services/geminiService';
+import { PhotoData, CaptionStyleId, CaptionErrorKind, Position } from '../types';
+import { requestCaption, requestTranslation } from '../services/captionService';
+import { describeCaptionError } from '../services/captionErrors';
+import { CAPTION_STYLES, DEFAULT_CAPTION_STYLE } from '../services/captionStyles';
+import { CAPTION_LANGUAGES, UNKNOWN_LANGUAGE, effectiveLanguage, languageLabel, languageBadge, isCjk, captionLanguages, showCaptionIn, addTranslation, nextCaptionLanguage } from '../services/captionLanguages';
+import { getFilmStock } from '../services/filmStocks';
+import { cardSize } from '../services/wallLayout';
+import { photoAspectRatio } from '../services/photoStrip';
+import { SHAKE_MIN_SPEED, developProgress, developLook, photoDevelopment, shakeGain } from '../services/development';
+import { drawAnnotations } from '../services/annotations';
+import { AnnotationLayer } from './AnnotationLayer';
+import { AnnotationEditor } from './AnnotationEditor';
+
+const ROTATE_STEP = 5; // Degrees per click of the rotate buttons
+const NUDGE_STEP = 10; // Pixels per arrow key press; Shift moves five times as far
+const LONG_PRESS_MS = 500; // How long a finger rests on a card to open its menu
+const LONG_PRESS_SLOP = 8; // Pixels a finger may wander before the press counts as a drag
+const DEVELOP_TICK_MS = 100; // How often a developing photo redraws
+
+// Above any stored z-order, so the card under the pointer is always reachable
+const HOVER_Z_INDEX = 10000;
+
+// Where the app explains the card shortcuts; cards point at it with aria-describedby
+export const KEYBOARD_HELP_ID = 'photo-card-keyboard-help';
+
+/**
+ * Describes a photo for screen readers, built from its caption.
+ */
+export const photoAltText = (photo: PhotoData): string => {
+  const kind = photo.kind === 'strip' ? 'Photo strip' : 'Photo';
+  if (photo.caption) return `${kind}: ${photo.caption}`;
+  return photo.captionStatus === 'failed' ? `${kind}, caption failed` : `${kind}, caption still being written`;
+};
+
+const photoLabel = (photo: PhotoData): string =>
+  `${photoAltText(photo)}. Taken ${photo.dateString}.${photo.isStaged ? ' In the camera; press Enter to put it on the wall.' : ''}`;
 
 interface PhotoCardProps {
   photo: PhotoData;
   onUpdate: (id: string, updates: Partial<PhotoData>) => void;
   onDelete: (id: string) => void;
   onDragRelease?: (id: string, point: { x: number, y: number }) => void;
+  isSelected?: boolean;
+  searchHighlight?: 'match' | 'dimmed'; // Set while a search is highlighting the wall
+  groupOffset?: Position; // Set while another selected card is being dragged
+  onSelect?: (id: string, additive: boolean) => void;
+  onDrag?: (id: string, offset: Position) => void;
+  onMove?: (id: string, offset: Position) => void; // A wall drag finished
+  captionLanguage?: string; // The wall's language for new captions
   className?: string;
   style?: React.CSSProperties;
 }
@@ -19,30 +60,74 @@ export const PhotoCard: React.FC<PhotoCardProps> = ({
   onUpdate,
   onDelete,
   onDragRelease,
+  isSelected,
+  searchHighlight,
+  groupOffset,
+  onSelect,
+  onDrag,
+  onMove,
+  captionLanguage,
   className,
   style
 }) => {
   const [isHovering, setIsHovering] = useState(false);
+  const [isFocused, setIsFocused] = useState(false); // Focus is on the card or one of its buttons
+  const [isTouch, setIsTouch] = useState(false); // Last used with a finger or pen rather than a mouse
+  const [isMenuOpen, setIsMenuOpen] = useState(false); // Long-press / right-click menu
+  const [isAnnotating, setIsAnnotating] = useState(false); // Drawing, stickers and notes
   const [isEditing, setIsEditing] = useState(false);
   const [editText, setEditText] = useState(photo.caption);
   const [isRegenerating, setIsRegenerating] = useState(false);
+  const [isChoosingStyle, setIsChoosingStyle] = useState(false);
+  const [regenerateError, setRegenerateError] = useState<CaptionErrorKind | null>(null);
+  const [isChoosingLanguage, setIsChoosingLanguage] = useState(false);
+  const [translatingTo, setTranslatingTo] = useState<string | null>(null);
+  const [translateError, setTranslateError] = useState<CaptionErrorKind | null>(null);
+  const regenerateRequestRef = useRef<AbortController | null>(null);
+  const translateRequestRef = useRef<AbortController | null>(null);
+  const latestPhotoRef = useRef(photo); // For replies that arrive after the photo changed
+  latestPhotoRef.current = photo;
+  const onUpdateRef = useRef(onUpdate); // A new function on every wall render; the development clock needn't restart for it
+  onUpdateRef.current = onUpdate;
+  const longPressRef = useRef<{ timer: ReturnType<typeof setTimeout>, start: Position } | null>(null);
   const cardRef = useRef<HTMLDivElement>(null);
   const controls = useAnimation();
 
-  // Handle developing animation locally if needed, but CSS filter transition is easier
-  const [visualState, setVisualState] = useState<'developing' | 'developed'>(
-    photo.isDeveloping ? 'developing' : 'developed'
-  );
+  // Development runs on the clock rather than a timer, so a remount or reload carries on where it was
+  const shakenRef = useRef(0); // Time gained by shaking during the current drag, saved when it ends
+  const [developed, setDeveloped] = useState(() => developProgress(photo, Date.now()));
 
   useEffect(() => {
-    if (photo.isDeveloping) {
-      const timer = setTimeout(() => {
-        setVisualState('developed');
-        onUpdate(photo.id, { isDeveloping: false });
-      }, 3500); // 3.5s developing time
-      return () => clearTimeout(timer);
+    if (!photo.isDeveloping) {
+      setDeveloped(1);
+      return;
     }
-  }, [photo.isDeveloping, photo.id, onUpdate]);
+    const tick = () => {
+      const progress = developProgress(latestPhotoRef.current, Date.now(), shakenRef.current);
+      setDeveloped(progress);
+      if (progress >= 1) onUpdateRef.current(photo.id, { isDeveloping: false });
+    };
+    tick();
+    const timer = setInterval(tick, DEVELOP_TICK_MS);
+    return () => clearInterval(timer);
+  }, [photo.isDeveloping, photo.development, photo.id]);
+
+  // Drop any reroll, translation or pending long press when the card goes away
+  useEffect(() => () => {
+    regenerateRequestRef.current?.abort();
+    translateRequestRef.current?.abort();
+    if (longPressRef.current) clearTimeout(longPressRef.current.timer);
+  }, []);
+
+  // A tap anywhere else closes the menu
+  useEffect(() => {
+    if (!isMenuOpen) return;
+    const handleOutside = (e: PointerEvent) => {
+      if (!cardRef.current?.contains(e.target as Node)) setIsMenuOpen(false);
+    };
+    document.addEventListener('pointerdown', handleOutside);
+    return () => document.removeEventListener('pointerdown', handleOutside);
+  }, [isMenuOpen]);
 
   const handleDownload = async (e: React.MouseEvent) => {
     e.stopPropagation();
@@ -52,7 +137,13 @@ export const PhotoCard: React.FC<PhotoCardProps> = ({
       const canvas = await html2canvas(cardRef.current, {
         backgroundColor: null,
         scale: 2, // Higher quality
+        // Capture the card flat and full size, whatever its tilt or the wall's zoom
+        onclone: (_doc, clone) => {
+          for (let el: HTMLElement | null = clone; el; el = el.parentElement) el.style.transform = 'none';
+        },
       });
+      const ctx = canvas.getContext('2d');
+      if (ctx && photo.annotations?.length) drawAnnotations(ctx, photo.annotations, canvas.width, canvas.height);
       const link = document.createElement('a');
       link.download = `bao-retro-${photo.id}.png`;
       link.href = canvas.toDataURL('image/png');
@@ -62,26 +153,115 @@ export const PhotoCard: React.FC<PhotoCardProps> = ({
     }
   };
 
-  const handleRegenerateCaption = async (e: React.MouseEvent) => {
+  // A new caption, rerolled or typed, is in the language shown, or the wall's when that's unknown
+  const newCaptionLanguage = () =>
+    photo.captionLanguage && photo.captionLanguage !== UNKNOWN_LANGUAGE ? photo.captionLanguage : effectiveLanguage(captionLanguage);
+
+  // Rerolls in the photo's own style unless a different one is picked
+  const handleRegenerateCaption = async (e: React.MouseEvent, style: CaptionStyleId = photo.captionStyle ?? DEFAULT_CAPTION_STYLE) => {
     e.stopPropagation();
+    setIsChoosingStyle(false);
+    setRegenerateError(null);
     setIsRegenerating(true);
-    const newCaption = await generatePhotoCaption(photo.imageData);
-    onUpdate(photo.id, { caption: newCaption });
-    setEditText(newCaption);
-    setIsRegenerating(false);
+
+    regenerateRequestRef.current?.abort();
+    const controller = new AbortController();
+    regenerateRequestRef.current = controller;
+
+    // Stays in the language it was in; translations of the old caption no longer fit
+    const language = newCaptionLanguage();
+    const result = await requestCaption(photo.imageData, style, { signal: controller.signal, language });
+    if (result.status === 'success') {
+      onUpdate(photo.id, {
+        caption: result.caption,
+        captionLanguage: language,
+        translations: undefined,
+        captionStyle: style,
+        captionStatus: 'ready',
+        captionError: undefined,
+        // What's in the photo hasn't changed; keep the old tags if this provider gives none
+        ...(result.tags && { tags: result.tags }),
+      });
+      setEditText(result.caption);
+    } else if (result.error !== 'cancelled') {
+      if (photo.caption) {
+        // Keep the caption we already have and just flag the failed reroll
+        setRegenerateError(result.error);
+      } else {
+        onUpdate(photo.id, { captionStatus: 'failed', captionError: result.error });
+      }
+    }
+    if (regenerateRequestRef.current === controller) {
+      regenerateRequestRef.current = null;
+      setIsRegenerating(false);
+    }
+  };
+
+  // Shows the caption in another language, translating it the first time
+  const handleShowLanguage = async (code: string) => {
+    setTranslateError(null);
+    const existing = showCaptionIn(photo, code);
+    if (existing || code === (photo.captionLanguage ?? UNKNOWN_LANGUAGE)) {
+      if (existing) onUpdate(photo.id, existing);
+      setIsChoosingLanguage(false);
+      return;
+    }
+    if (!photo.caption) return;
+
+    translateRequestRef.current?.abort();
+    const controller = new AbortController();
+    translateRequestRef.current = controller;
+    setTranslatingTo(code);
+
+    const source = photo.caption;
+    const result = await requestTranslation(source, code, { signal: controller.signal });
+    // Someone may have edited or rerolled the caption meanwhile; that translation would be of something else
+    if (result.status === 'success' && latestPhotoRef.current.caption === source) {
+      onUpdate(photo.id, addTranslation(latestPhotoRef.current, code, result.text));
+      setIsChoosingLanguage(false);
+    } else if (result.status === 'error' && result.error !== 'cancelled') {
+      setTranslateError(result.error);
+    }
+    if (translateRequestRef.current === controller) {
+      translateRequestRef.current = null;
+      setTranslatingTo(null);
+    }
   };
 
+  const nextLanguage = nextCaptionLanguage(photo);
+  const shownLanguage = photo.captionLanguage && photo.captionLanguage !== UNKNOWN_LANGUAGE ? photo.captionLanguage : undefined;
+  // Chinese and Japanese wrap between characters, with strict rules keeping punctuation off line starts;
+  // Korean wraps between words like English
+  const captionTextStyle: React.CSSProperties | undefined = isCjk(shownLanguage)
+    ? { lineBreak: 'strict', wordBreak: shownLanguage!.toLowerCase().startsWith('ko') ? 'keep-all' : 'normal' }
+    : undefined;
+
+  // Editing ends with focus back on the card, so keyboard users don't lose their place
   const saveEdit = () => {
-    onUpdate(photo.id, { caption: editText });
+    // Translations of the old caption no longer fit, as after a reroll
+    if (editText !== photo.caption) {
+      onUpdate(photo.id, { caption: editText, captionLanguage: newCaptionLanguage(), translations: undefined });
+    }
     setIsEditing(false);
+    cardRef.current?.focus();
   };
 
   const cancelEdit = () => {
     setEditText(photo.caption);
     setIsEditing(false);
+    cardRef.current?.focus();
   };
 
-  const handleDragEnd = (event: any, info: any) => {
+  const handleDragEnd = (event: MouseEvent | TouchEvent | PointerEvent, info: PanInfo) => {
+    // Keep what shaking gained; saved after the drop so it lands on the photo wherever it ends up
+    const shakenMs = shakenRef.current;
+    shakenRef.current = 0;
+    const saveShaking = () => {
+      if (shakenMs <= 0 || !photo.isDeveloping) return;
+      const development = photoDevelopment(photo);
+      onUpdate(photo.id, { development: { ...development, shakenMs: (development.shakenMs ?? 0) + shakenMs } });
+    };
+
     if (photo.isStaged && onDragRelease) {
        // Calculate absolute position relative to window
        const rect = cardRef.current?.getBoundingClientRect();
@@ -89,83 +269,313 @@ export const PhotoCard: React.FC<PhotoCardProps> = ({
          onDragRelease(photo.id, { x: rect.left, y: rect.top });
        }
     } else if (!photo.isStaged) {
-        // Update position for free-floating photos
-        // We rely on the parent to manage state updates for persistence if needed
-        // but for now Framer Motion handles the visual drag. 
-        // To strictly persist:
-        // onUpdate(photo.id, { position: { x: info.point.x, y: info.point.y } });
+      // Framer Motion keeps the dragged transform; record where it ended up
+      const offset = { x: info.offset.x, y: info.offset.y };
+      if (onMove) {
+        onMove(photo.id, offset);
+      } else {
+        onUpdate(photo.id, {
+          position: { x: photo.position.x + offset.x, y: photo.position.y + offset.y }
+        });
+      }
     }
+    saveShaking();
+  };
+
+  // Keyboard equivalents of dragging, clicking and hovering. Only handled when
+  // the card itself has focus, so typing in the caption editor isn't hijacked.
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (e.target !== e.currentTarget || isEditing || isAnnotating) return;
+
+    if (photo.isStaged) {
+      if (e.key === 'Enter' || e.key === ' ') {
+        e.preventDefault();
+        const rect = cardRef.current?.getBoundingClientRect();
+        if (rect && onDragRelease) onDragRelease(photo.id, { x: rect.left, y: rect.top });
+      }
+      return;
+    }
+
+    const step = e.shiftKey ? NUDGE_STEP * 5 : NUDGE_STEP;
+    const nudges: Record<string, Position> = {
+      ArrowLeft: { x: -step, y: 0 },
+      ArrowRight: { x: step, y: 0 },
+      ArrowUp: { x: 0, y: -step },
+      ArrowDown: { x: 0, y: step },
+    };
+    const nudge = nudges[e.key];
+    if (nudge) {
+      e.preventDefault();
+      if (onMove) {
+        onMove(photo.id, nudge);
+      } else {
+        onUpdate(photo.id, { position: { x: photo.position.x + nudge.x, y: photo.position.y + nudge.y } });
+      }
+    } else if (e.key === ' ') {
+      e.preventDefault();
+      onSelect?.(photo.id, e.shiftKey);
+    } else if (e.key.toLowerCase() === 'a' && !e.ctrlKey && !e.metaKey) {
+      e.preventDefault();
+      setIsAnnotating(true);
+    } else if (e.key === 'Enter' || e.key === 'F2') {
+      e.preventDefault();
+      setIsEditing(true);
+    } else if (e.key.toLowerCase() === 'r' && !e.ctrlKey && !e.metaKey) {
+      e.preventDefault();
+      onUpdate(photo.id, { rotation: photo.rotation + (e.shiftKey ? -ROTATE_STEP : ROTATE_STEP) });
+    } else if ((e.key === 'Delete' || e.key === 'Backspace') && !isSelected) {
+      // A selected card is removed along with the rest of the selection by the wall
+      e.preventDefault();
+      e.stopPropagation();
+      onDelete(photo.id);
+    }
+  };
+
+  const cancelLongPress = () => {
+    if (!longPressRef.current) return;
+    clearTimeout(longPressRef.current.timer);
+    longPressRef.current = null;
   };
 
+  // Fingers can't hover: a tap selects the card and shows its toolbar,
+  // and holding still on it opens the full menu instead
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    setIsTouch(e.pointerType !== 'mouse');
+    if (e.pointerType === 'mouse' || photo.isStaged || isEditing) {
+      onSelect?.(photo.id, e.shiftKey);
+      return;
+    }
+    cancelLongPress();
+    longPressRef.current = {
+      start: { x: e.clientX, y: e.clientY },
+      timer: setTimeout(() => {
+        longPressRef.current = null;
+        setIsMenuOpen(true);
+      }, LONG_PRESS_MS),
+    };
+  };
+
+  // Still waiting on the long press means the finger lifted without moving: a tap
+  const handlePointerUp = () => {
+    if (!longPressRef.current) return;
+    cancelLongPress();
+    onSelect?.(photo.id, false);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const press = longPressRef.current;
+    if (press && Math.hypot(e.clientX - press.start.x, e.clientY - press.start.y) > LONG_PRESS_SLOP) {
+      cancelLongPress();
+    }
+  };
+
+  // Runs a menu entry and closes the menu
+  const menuAction = (action: (e: React.MouseEvent) => void) => (e: React.MouseEvent) => {
+    e.stopPropagation();
+    setIsMenuOpen(false);
+    action(e);
+  };
+
+  const handleDrag = (event: MouseEvent | TouchEvent | PointerEvent, info: PanInfo) => {
+    // Shake it like a Polaroid picture: fast movement hurries development along
+    if (photo.isDeveloping && Math.hypot(info.velocity.x, info.velocity.y) >= SHAKE_MIN_SPEED) {
+      shakenRef.current += shakeGain(photo, Math.hypot(info.delta.x, info.delta.y));
+    }
+    if (!photo.isStaged) {
+      onDrag?.(photo.id, { x: info.offset.x, y: info.offset.y });
+    }
+  };
+
+  const look = developLook(developed);
+
   return (
     <motion.div
       ref={cardRef}
-      className={`absolute flex flex-col bg-white shadow-xl overflow-hidden select-none ${className}`}
+      className={`absolute flex flex-col bg-white shadow-xl overflow-hidden select-none focus:outline-none focus-visible:ring-4 focus-visible:ring-yellow-300 ${className}`}
+      tabIndex={0}
+      role="figure"
+      aria-label={photoLabel(photo)}
+      aria-keyshortcuts={photo.isStaged ? 'Enter' : 'ArrowUp ArrowDown ArrowLeft ArrowRight Space Enter R A Delete'}
+      aria-describedby={photo.isStaged ? undefined : KEYBOARD_HELP_ID}
       style={{
-        width: '240px', // Fixed width for polaroid
-        height: '320px', // 3:4 aspect ratio roughly
+        WebkitTouchCallout: 'none', // The long-press menu replaces the browser's own
+        width: `${cardSize(photo).width}px`, // Fixed width for polaroid, narrower for strips
+        height: `${cardSize(photo).height}px`, // 3:4 aspect ratio roughly
         padding: '16px 16px 40px 16px', // Polaroid spacing
-        boxShadow: '0 10px 15px -3px rgba(0, 0, 0, 0.2), 0 4px 6px -2px rgba(0, 0, 0, 0.1)',
+        boxShadow: isSelected
+          ? '0 0 0 3px #60a5fa, 0 10px 15px -3px rgba(0, 0, 0, 0.2), 0 4px 6px -2px rgba(0, 0, 0, 0.1)'
+          : searchHighlight === 'match'
+            ? '0 0 0 3px #facc15, 0 10px 15px -3px rgba(0, 0, 0, 0.2), 0 4px 6px -2px rgba(0, 0, 0, 0.1)'
+            : '0 10px 15px -3px rgba(0, 0, 0, 0.2), 0 4px 6px -2px rgba(0, 0, 0, 0.1)',
+        opacity: searchHighlight === 'dimmed' && !isHovering && !isFocused ? 0.3 : 1,
+        filter: searchHighlight === 'dimmed' && !isHovering && !isFocused ? 'grayscale(1)' : undefined,
         cursor: isEditing ? 'default' : 'grab',
-        zIndex: isHovering ? 50 : (photo.isStaged ? 10 : 1),
+        zIndex: isHovering || isFocused ? HOVER_Z_INDEX : (photo.isStaged ? 10 : photo.zIndex ?? 1),
         rotate: photo.rotation,
         ...style
       }}
       initial={photo.isStaged ? { y: 0 } : { x: photo.position.x, y: photo.position.y }}
-      animate={photo.isStaged ? { y: -180 } : undefined} // Ejection animation target relative to container
-      transition={photo.isStaged ? { duration: 1.5, type: "spring", bounce: 0.2 } : undefined}
-      drag
+      animate={photo.isStaged
+        ? { y: -180 } // Ejection animation target relative to container
+        : { x: photo.position.x + (groupOffset?.x ?? 0), y: photo.position.y + (groupOffset?.y ?? 0) }}
+      transition={photo.isStaged
+        ? { duration: 1.5, type: "spring", bounce: 0.2 }
+        : groupOffset ? { duration: 0 } : { type: "spring", stiffness: 260, damping: 30 }}
+      drag={!isMenuOpen && !isAnnotating}
       dragMomentum={false}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={cancelLongPress}
+      onContextMenu={(e) => {
+        if (photo.isStaged) return;
+        e.preventDefault();
+        cancelLongPress();
+        setIsMenuOpen(true);
+      }}
+      onDragStart={cancelLongPress}
+      onDrag={handleDrag}
       onDragEnd={handleDragEnd}
-      onMouseEnter={() => setIsHovering(true)}
-      onMouseLeave={() => setIsHovering(false)}
-      whileDrag={{ scale: 1.05, cursor: 'grabbing', zIndex: 100 }}
+      // Touch screens fire enter/leave around every tap; only a mouse really hovers
+      onPointerEnter={(e) => e.pointerType === 'mouse' && setIsHovering(true)}
+      onPointerLeave={(e) => e.pointerType === 'mouse' && setIsHovering(false)}
+      onKeyDown={handleKeyDown}
+      onFocus={() => setIsFocused(true)}
+      onBlur={(e) => {
+        if (!e.currentTarget.contains(e.relatedTarget as Node)) setIsFocused(false);
+      }}
+      whileDrag={{ scale: 1.05, cursor: 'grabbing', zIndex: HOVER_Z_INDEX + 1 }}
     >
-      {/* Hover Toolbar */}
-      {!photo.isStaged && isHovering && !isEditing && (
-        <div className="absolute -top-10 left-0 w-full flex justify-center gap-2 p-2">
+      {/* Hover / Focus / Tap Toolbar (over the top of the photo, so the card doesn't clip it) */}
+      {!photo.isStaged && (isHovering || isFocused || (isTouch && isSelected)) && !isEditing && !isMenuOpen && !isAnnotating && (
+        <div className="absolute top-4 left-0 w-full flex justify-center gap-2 p-2 z-10" role="toolbar" aria-label="Photo actions" data-html2canvas-ignore>
           <button 
             onClick={handleDownload}
             className="bg-white p-2 rounded-full shadow-md hover:bg-blue-50 text-gray-700 transition-colors"
             title="Download"
+            aria-label="Download"
           >
             <Download size={16} />
           </button>
+          <button 
+            onClick={(e) => { e.stopPropagation(); onUpdate(photo.id, { rotation: photo.rotation - ROTATE_STEP }); }}
+            className="bg-white p-2 rounded-full shadow-md hover:bg-yellow-50 text-gray-700 transition-colors"
+            title="Rotate left"
+            aria-label="Rotate left"
+          >
+            <RotateCcw size={16} />
+          </button>
+          <button 
+            onClick={(e) => { e.stopPropagation(); onUpdate(photo.id, { rotation: photo.rotation + ROTATE_STEP }); }}
+            className="bg-white p-2 rounded-full shadow-md hover:bg-yellow-50 text-gray-700 transition-colors"
+            title="Rotate right"
+            aria-label="Rotate right"
+          >
+            <RotateCw size={16} />
+          </button>
+          <button 
+            onClick={(e) => { e.stopPropagation(); setIsAnnotating(true); }}
+            className="bg-white p-2 rounded-full shadow-md hover:bg-purple-50 text-gray-700 transition-colors"
+            title="Draw & stickers (A)"
+            aria-label="Draw and add stickers"
+          >
+            <Brush size={16} />
+          </button>
           <button 
             onClick={(e) => { e.stopPropagation(); onDelete(photo.id); }}
             className="bg-white p-2 rounded-full shadow-md hover:bg-red-50 text-red-500 transition-colors"
             title="Delete"
+            aria-label="Delete"
           >
             <Trash2 size={16} />
           </button>
         </div>
       )}
 
+      {/* Long-press / Right-click Menu */}
+      {isMenuOpen && (
+        <div
+          className="absolute inset-0 z-20 flex items-center justify-center bg-black/40"
+          data-html2canvas-ignore
+          onClick={(e) => { e.stopPropagation(); setIsMenuOpen(false); }}
+        >
+          <div
+            className="flex flex-col bg-white rounded-xl shadow-xl py-1 font-sans text-sm text-gray-700"
+            role="menu"
+            aria-label="Photo actions"
+            onKeyDown={(e) => {
+              if (e.key !== 'Escape') return;
+              e.stopPropagation();
+              setIsMenuOpen(false);
+              cardRef.current?.focus();
+            }}
+          >
+            {[
+              { label: 'Download', icon: Download, action: handleDownload },
+              { label: isSelected ? 'Remove from selection' : 'Add to selection', icon: SquareCheck, action: () => onSelect?.(photo.id, true) },
+              { label: 'Rotate left', icon: RotateCcw, action: () => onUpdate(photo.id, { rotation: photo.rotation - ROTATE_STEP }) },
+              { label: 'Rotate right', icon: RotateCw, action: () => onUpdate(photo.id, { rotation: photo.rotation + ROTATE_STEP }) },
+              { label: 'Edit caption', icon: Pencil, action: () => setIsEditing(true) },
+              { label: 'Draw & stickers', icon: Brush, action: () => setIsAnnotating(true) },
+              { label: 'New caption', icon: RefreshCw, action: (e: React.MouseEvent) => handleRegenerateCaption(e) },
+              { label: 'Translate caption', icon: Languages, action: () => setIsChoosingLanguage(true) },
+              { label: 'Delete', icon: Trash2, action: () => onDelete(photo.id) },
+            ].map(({ label, icon: Icon, action }, index) => (
+              <button
+                key={label}
+                role="menuitem"
+                autoFocus={index === 0}
+                onClick={menuAction(action)}
+                className={`flex items-center gap-2 px-4 py-2 text-left hover:bg-yellow-50 focus:bg-yellow-50 focus:outline-none ${label === 'Delete' ? 'text-red-500' : ''}`}
+              >
+                <Icon size={16} /> {label}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Photo Area */}
-      <div className="relative w-full aspect-[3/4] bg-gray-900 overflow-hidden border border-gray-200">
+      <div
+        className="relative w-full bg-gray-900 overflow-hidden border border-gray-200"
+        style={{ aspectRatio: photoAspectRatio(photo) }}
+      >
         <img 
           src={photo.imageData} 
-          alt="Memory" 
-          className="w-full h-full object-cover transition-all duration-[4000ms] ease-out"
+          alt={photoAltText(photo)} 
+          className="w-full h-full object-cover transition-[filter,opacity] duration-200 ease-linear"
           style={{
-            filter: visualState === 'developing' ? 'blur(10px) brightness(2)' : 'blur(0px) brightness(1)',
-            opacity: visualState === 'developing' ? 0.8 : 1,
-            transform: 'scaleX(-1)', // Mirror selfie to normal
+            filter: look.imageFilter,
+            opacity: look.imageOpacity,
+            transform: photo.mirrored ? 'scaleX(-1)' : undefined, // Pixels are true-orientation; flip only selfies kept mirrored
           }}
           draggable={false}
         />
+        {/* The milky chemical layer that clears as the photo develops */}
+        {look.veilOpacity > 0 && (
+          <div
+            className="absolute inset-0 bg-[#b9c6c4] transition-opacity duration-200 ease-linear pointer-events-none"
+            style={{ opacity: look.veilOpacity }}
+          />
+        )}
       </div>
 
-      {/* Caption Area */}
-      <div className="mt-4 font-handwritten text-gray-800 text-center leading-tight relative group min-h-[60px] flex flex-col justify-center items-center">
+      {/* Caption Area. Its language picks the handwriting font for the script (see index.html) */}
+      <div
+        className="mt-4 font-handwritten text-gray-800 text-center leading-tight relative group min-h-[60px] flex flex-col justify-center items-center"
+        lang={shownLanguage}
+      >
         
         {isEditing ? (
           <div className="w-full flex flex-col items-center gap-2">
             <textarea
               value={editText}
+              dir="auto"
+              style={captionTextStyle}
               onChange={(e) => setEditText(e.target.value)}
               className="w-full bg-yellow-50 border-b border-gray-300 focus:outline-none text-center resize-none p-1 text-sm"
               rows={2}
+              aria-label="Caption"
               autoFocus
               onKeyDown={(e) => {
                 if (e.key === 'Enter') saveEdit();
@@ -174,9 +584,70 @@ export const PhotoCard: React.FC<PhotoCardProps> = ({
               onMouseDown={(e) => e.stopPropagation()} // Prevent drag start on input
             />
             <div className="flex gap-2">
-               <button onClick={saveEdit} className="text-green-600"><Check size={14} /></button>
-               <button onClick={cancelEdit} className="text-red-500"><X size={14} /></button>
+               <button onClick={saveEdit} className="text-green-600" aria-label="Save caption"><Check size={14} /></button>
+               <button onClick={cancelEdit} className="text-red-500" aria-label="Cancel editing"><X size={14} /></button>
+            </div>
+          </div>
+        ) : isChoosingStyle ? (
+          <div className="w-full flex flex-col items-center gap-1">
+            <div className="flex flex-wrap justify-center gap-1 font-sans">
+              {CAPTION_STYLES.map(style => (
+                <button
+                  key={style.id}
+                  onClick={(e) => handleRegenerateCaption(e, style.id)}
+                  onMouseDown={(e) => e.stopPropagation()}
+                  aria-pressed={style.id === (photo.captionStyle ?? DEFAULT_CAPTION_STYLE)}
+                  className={`text-[10px] px-2 py-0.5 rounded-full border transition-colors ${
+                    style.id === (photo.captionStyle ?? DEFAULT_CAPTION_STYLE)
+                      ? 'bg-gray-800 text-white border-gray-800'
+                      : 'bg-white text-gray-600 border-gray-300 hover:bg-yellow-50'
+                  }`}
+                >
+                  {style.label}
+                </button>
+              ))}
             </div>
+            <button onClick={() => setIsChoosingStyle(false)} className="text-red-500" aria-label="Close style chooser"><X size={14} /></button>
+          </div>
+        ) : isChoosingLanguage ? (
+          <div className="w-full flex flex-col items-center gap-1" lang="en">
+            <div className="flex flex-wrap justify-center gap-1 font-sans max-h-28 overflow-y-auto" role="group" aria-label="Caption language">
+              {[...new Set([...captionLanguages(photo), ...CAPTION_LANGUAGES.map(l => l.code)])].map(code => {
+                const isShown = code === (photo.captionLanguage ?? UNKNOWN_LANGUAGE);
+                const isKept = captionLanguages(photo).includes(code);
+                return (
+                  <button
+                    key={code}
+                    lang={code === UNKNOWN_LANGUAGE ? undefined : code}
+                    onClick={(e) => { e.stopPropagation(); handleShowLanguage(code); }}
+                    onMouseDown={(e) => e.stopPropagation()}
+                    disabled={translatingTo !== null || (!isKept && !photo.caption)}
+                    aria-pressed={isShown}
+                    title={isKept ? `Show in ${languageLabel(code)}` : `Translate into ${languageLabel(code)}`}
+                    className={`flex items-center gap-1 text-[10px] px-2 py-0.5 rounded-full border transition-colors disabled:opacity-50 ${
+                      isShown
+                        ? 'bg-gray-800 text-white border-gray-800'
+                        : isKept
+                          ? 'bg-yellow-50 text-gray-700 border-yellow-300 hover:bg-yellow-100'
+                          : 'bg-white text-gray-600 border-gray-300 hover:bg-yellow-50'
+                    }`}
+                  >
+                    {translatingTo === code && <Loader2 size={10} className="animate-spin" />}
+                    {languageLabel(code)}
+                  </button>
+                );
+              })}
+            </div>
+            {translateError && (
+              <p className="text-[10px] text-red-400 font-sans">Couldn't translate: {describeCaptionError(translateError)}</p>
+            )}
+            <button
+              onClick={() => { translateRequestRef.current?.abort(); setIsChoosingLanguage(false); setTranslateError(null); }}
+              className="text-red-500"
+              aria-label="Close language chooser"
+            >
+              <X size={14} />
+            </button>
           </div>
         ) : (
           <>
@@ -184,32 +655,101 @@ export const PhotoCard: React.FC<PhotoCardProps> = ({
               className="relative w-full"
               onDoubleClick={() => setIsEditing(true)}
             >
-              <p className="text-lg text-gray-800 break-words px-1">
-                {photo.caption || (isRegenerating ? "Writing..." : "...")}
+              {photo.captionStatus === 'failed' && !photo.caption && !isRegenerating ? (
+                <button
+                  onClick={(e) => handleRegenerateCaption(e)}
+                  onMouseDown={(e) => e.stopPropagation()}
+                  className="text-base text-red-500 hover:text-red-600 px-1"
+                  title={photo.captionError && describeCaptionError(photo.captionError)}
+                >
+                  caption failed — retry
+                </button>
+              ) : (
+                <p className="text-lg text-gray-800 break-words px-1" dir="auto" style={captionTextStyle} aria-live="polite">
+                  {photo.caption || (isRegenerating ? "Writing..." : "...")}
+                </p>
+              )}
+              {regenerateError && (
+                <p className="text-[10px] text-red-400 font-sans">Couldn't reroll: {describeCaptionError(regenerateError)}</p>
+              )}
+              <p className="text-xs text-gray-400 mt-1 font-sans" lang="en">
+                {photo.dateString}
+                {photo.filmStock && ` · ${getFilmStock(photo.filmStock).label}`}
+                {nextLanguage && (
+                  <>
+                    {' · '}
+                    <button
+                      onClick={(e) => { e.stopPropagation(); handleShowLanguage(nextLanguage); }}
+                      onMouseDown={(e) => e.stopPropagation()}
+                      className="hover:text-gray-600 underline decoration-dotted"
+                      title={`Show in ${languageLabel(nextLanguage)}`}
+                      aria-label={`Caption in ${languageLabel(photo.captionLanguage ?? UNKNOWN_LANGUAGE)}, show in ${languageLabel(nextLanguage)}`}
+                    >
+                      {languageBadge(photo.captionLanguage ?? UNKNOWN_LANGUAGE)} ⇄ {languageBadge(nextLanguage)}
+                    </button>
+                  </>
+                )}
               </p>
-              <p className="text-xs text-gray-400 mt-1 font-sans">{photo.dateString}</p>
               
               {/* Text Interaction Icons */}
               {!photo.isStaged && (
-                <div className="absolute right-0 top-1/2 -translate-y-1/2 translate-x-full pl-2 opacity-0 group-hover:opacity-100 transition-opacity flex flex-col gap-1">
+                <div className={`absolute right-0 top-1/2 -translate-y-1/2 translate-x-full pl-2 group-hover:opacity-100 focus-within:opacity-100 transition-opacity flex flex-col gap-1 ${isFocused ? 'opacity-100' : 'opacity-0'}`}>
                   <button 
                     onClick={() => setIsEditing(true)}
                     className="text-gray-400 hover:text-gray-600"
+                    title="Edit caption"
+                    aria-label="Edit caption"
                   >
                     <Pencil size={14} />
                   </button>
                   <button 
                     onClick={handleRegenerateCaption}
                     className={`text-gray-400 hover:text-blue-500 ${isRegenerating ? 'animate-spin' : ''}`}
+                    title="Regenerate caption"
+                    aria-label={isRegenerating ? 'Writing a new caption' : 'Regenerate caption'}
                   >
                     <RefreshCw size={14} />
                   </button>
+                  <button 
+                    onClick={() => setIsChoosingStyle(true)}
+                    className="text-gray-400 hover:text-purple-500"
+                    title="Reroll in another style"
+                    aria-label="Reroll in another style"
+                  >
+                    <Palette size={14} />
+                  </button>
+                  <button
+                    onClick={() => setIsChoosingLanguage(true)}
+                    disabled={!photo.caption}
+                    className="text-gray-400 hover:text-green-600 disabled:opacity-40"
+                    title="Translate caption"
+                    aria-label="Translate caption"
+                  >
+                    <Languages size={14} />
+                  </button>
                 </div>
               )}
             </div>
           </>
         )}
       </div>
+
+      {/* Annotations, drawn over photo and border alike */}
+      {photo.annotations && photo.annotations.length > 0 && (
+        <AnnotationLayer annotations={photo.annotations} width={cardSize(photo).width} height={cardSize(photo).height} />
+      )}
+      {isAnnotating && (
+        <AnnotationEditor
+          annotations={photo.annotations ?? []}
+          width={cardSize(photo).width}
+          height={cardSize(photo).height}
+          onChange={(annotations) => onUpdate(photo.id, { annotations })}
+          onDone={() => {
+            setIsAnnotating(false);
+            cardRef.current?.focus();
+          }}
+        />
+      )}
     </motion.div>
   );
-};
\ No newline at end of file
+};
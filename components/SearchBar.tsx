@@ -0,0 +1,94 @@
+import React from 'react';
+import { Search, X } from 'lucide-react';
+import { FilterMode, PhotoFilter, EMPTY_FILTER, isFilterActive } from '../services/photoSearch';
+import { OptionPicker } from './OptionPicker';
+
+interface SearchBarProps {
+  filter: PhotoFilter;
+  onChange: (filter: PhotoFilter) => void;
+  mode: FilterMode;
+  onModeChange: (mode: FilterMode) => void;
+  matchCount: number;
+  totalCount: number;
+  suggestions: string[]; // Common tags offered as one-click searches
+  className?: string;
+}
+
+const MODES: { id: FilterMode; label: string }[] = [
+  { id: 'highlight', label: 'Highlight' },
+  { id: 'isolate', label: 'Only matches' },
+];
+
+const dateInputClass = "font-sans text-xs border border-gray-300 rounded-md px-1 py-0.5 bg-white/90";
+
+export const SearchBar: React.FC<SearchBarProps> = ({
+  filter,
+  onChange,
+  mode,
+  onModeChange,
+  matchCount,
+  totalCount,
+  suggestions,
+  className
+}) => {
+  if (totalCount === 0) return null;
+  const isActive = isFilterActive(filter);
+
+  return (
+    <div className={`flex flex-col items-center gap-1 font-handwritten text-gray-700 ${className ?? ''}`}>
+      <div className="flex flex-wrap justify-center items-center gap-2 bg-white/90 rounded-3xl md:rounded-full shadow-md px-3 py-1">
+        <Search size={16} className="text-gray-400" />
+        <input
+          type="search"
+          value={filter.query}
+          onChange={(e) => onChange({ ...filter, query: e.target.value })}
+          placeholder="Search captions & tags"
+          aria-label="Search captions and tags"
+          className="bg-transparent focus:outline-none w-40 md:w-48 text-sm"
+          title='Words from captions or tags; "people:2" finds photos of two people'
+        />
+        <input
+          type="date"
+          value={filter.from ?? ''}
+          onChange={(e) => onChange({ ...filter, from: e.target.value || undefined })}
+          className={dateInputClass}
+          title="Taken on or after"
+          aria-label="Taken on or after"
+        />
+        <span className="text-xs text-gray-400">to</span>
+        <input
+          type="date"
+          value={filter.to ?? ''}
+          onChange={(e) => onChange({ ...filter, to: e.target.value || undefined })}
+          className={dateInputClass}
+          title="Taken on or before"
+          aria-label="Taken on or before"
+        />
+        {isActive && (
+          <button onClick={() => onChange(EMPTY_FILTER)} className="text-gray-400 hover:text-gray-600" title="Clear search">
+            <X size={16} />
+          </button>
+        )}
+      </div>
+
+      {isActive ? (
+        <div className="flex items-center gap-2">
+          <span className="text-sm" aria-live="polite">{matchCount} of {totalCount} photos</span>
+          <OptionPicker options={MODES} value={mode} onChange={onModeChange} title="Show" />
+        </div>
+      ) : suggestions.length > 0 && (
+        <div className="flex flex-wrap justify-center gap-1">
+          {suggestions.map(tag => (
+            <button
+              key={tag}
+              onClick={() => onChange({ ...filter, query: tag })}
+              className="font-sans text-[10px] px-2 py-0.5 rounded-full border border-gray-300 bg-white/80 text-gray-600 hover:bg-yellow-50"
+            >
+              #{tag}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
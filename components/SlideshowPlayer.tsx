@@ -0,0 +1,293 @@
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { Play, Pause, SkipBack, SkipForward, X, Film, Loader2 } from 'lucide-react';
+import { PhotoData } from '../types';
+import { OptionPicker } from './OptionPicker';
+import {
+  SlideshowSettings, Slide, DEFAULT_SLIDESHOW_SETTINGS, SLIDE_ORDERS, SLIDE_TRANSITIONS, SLIDE_INTERVALS,
+  slideshowPhotos, slideDuration, prepareSlide, drawSlideshowFrame, canRecordVideo, recordSlideshow,
+} from '../services/slideshow';
+import { downloadBlob, fileStamp } from '../services/exportService';
+
+interface SlideshowPlayerProps {
+  photos: PhotoData[];
+  onClose: () => void;
+}
+
+const IDLE_MS = 2500; // Controls hide after the pointer rests this long
+
+// What the draw loop needs, kept out of React state so frames don't re-render
+interface FrameState {
+  current?: Slide;
+  previous?: Slide;
+  changedAt: number;
+  direction: 1 | -1;
+}
+
+export const SlideshowPlayer: React.FC<SlideshowPlayerProps> = ({ photos, onClose }) => {
+  const [settings, setSettings] = useState<SlideshowSettings>(DEFAULT_SLIDESHOW_SETTINGS);
+  const [index, setIndex] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(true);
+  const [isIdle, setIsIdle] = useState(false);
+  const [caption, setCaption] = useState(''); // Announced as each photo comes on
+  const [exportProgress, setExportProgress] = useState<number | null>(null);
+  const [exportError, setExportError] = useState<string | null>(null);
+
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const frameRef = useRef<FrameState>({ changedAt: 0, direction: 1 });
+  const transitionRef = useRef(settings.transition);
+  const exportRef = useRef<AbortController | null>(null);
+  // Prepared cards, dropped along with the photo version they were drawn from
+  const slidesRef = useRef(new WeakMap<PhotoData, Promise<Slide>>());
+
+  const order = useMemo(() => slideshowPhotos(photos, settings), [photos, settings]);
+  const position = order.length > 0 ? Math.min(index, order.length - 1) : 0;
+  transitionRef.current = settings.transition;
+
+  const slideFor = (photo: PhotoData): Promise<Slide> => {
+    let slide = slidesRef.current.get(photo);
+    if (!slide) {
+      slide = prepareSlide(photo);
+      slidesRef.current.set(photo, slide);
+    }
+    return slide;
+  };
+
+  const updateSettings = (updates: Partial<SlideshowSettings>) => {
+    setSettings(prev => ({ ...prev, ...updates }));
+    setIndex(0);
+  };
+
+  const step = (by: 1 | -1) => {
+    if (order.length === 0) return;
+    frameRef.current.direction = by;
+    setIndex((position + by + order.length) % order.length);
+  };
+
+  const jumpTo = (target: number) => {
+    frameRef.current.direction = target < position ? -1 : 1;
+    setIndex(target);
+  };
+
+  // Go full screen while open; closing or unmounting leaves it again
+  useEffect(() => {
+    containerRef.current?.requestFullscreen?.().catch(() => {});
+    return () => {
+      if (document.fullscreenElement) document.exitFullscreen().catch(() => {});
+      exportRef.current?.abort();
+    };
+  }, []);
+
+  // Browsers spend the first Escape on leaving full screen, so leaving it ends the show too
+  useEffect(() => {
+    const handleFullscreenChange = () => {
+      if (!document.fullscreenElement) onClose();
+    };
+    document.addEventListener('fullscreenchange', handleFullscreenChange);
+    return () => document.removeEventListener('fullscreenchange', handleFullscreenChange);
+  }, [onClose]);
+
+  // Bring the current photo on, and get the next one ready behind it
+  useEffect(() => {
+    const photo = order[position];
+    if (!photo) return;
+    let isCancelled = false;
+    slideFor(photo)
+      .then(slide => {
+        if (isCancelled) return;
+        const frame = frameRef.current;
+        if (frame.current?.photo.id !== slide.photo.id) {
+          frame.previous = frame.current;
+          frame.changedAt = performance.now();
+          setCaption(slide.photo.caption);
+        }
+        // The same photo, changed (its caption arrived, say), swaps in without a transition
+        frame.current = slide;
+      })
+      .catch(err => console.error('Failed to prepare slide', err));
+    if (order.length > 1) slideFor(order[(position + 1) % order.length]).catch(() => {});
+    return () => { isCancelled = true; };
+  }, [order, position]);
+
+  // Autoplay, looping back to the start
+  useEffect(() => {
+    if (!isPlaying || order.length < 2) return;
+    const timer = setTimeout(() => step(1), slideDuration(settings.interval));
+    return () => clearTimeout(timer);
+  }, [isPlaying, position, order.length, settings.interval]);
+
+  // Draw loop, sized to the screen's pixels
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    let frameId = 0;
+    const draw = () => {
+      const ratio = window.devicePixelRatio || 1;
+      const width = canvas.clientWidth;
+      const height = canvas.clientHeight;
+      if (canvas.width !== Math.round(width * ratio) || canvas.height !== Math.round(height * ratio)) {
+        canvas.width = Math.round(width * ratio);
+        canvas.height = Math.round(height * ratio);
+      }
+      const { current, previous, changedAt, direction } = frameRef.current;
+      if (current) {
+        ctx.setTransform(ratio, 0, 0, ratio, 0, 0);
+        drawSlideshowFrame(ctx, width, height, {
+          current,
+          previous,
+          sinceChange: performance.now() - changedAt,
+          direction,
+          transition: transitionRef.current,
+        });
+      }
+      frameId = requestAnimationFrame(draw);
+    };
+    frameId = requestAnimationFrame(draw);
+    return () => cancelAnimationFrame(frameId);
+  }, []);
+
+  // Controls fade away while the pointer rests
+  useEffect(() => {
+    if (isIdle) return;
+    const timer = setTimeout(() => setIsIdle(true), IDLE_MS);
+    return () => clearTimeout(timer);
+  }, [isIdle]);
+
+  // Keyboard: Space or K plays and pauses, arrows step, Home/End jump, Escape closes
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target.tagName === 'INPUT' || target.tagName === 'SELECT') return;
+      if (e.ctrlKey || e.metaKey || e.altKey) return;
+      const key = e.key.toLowerCase();
+      if (key === ' ' || key === 'k') setIsPlaying(playing => !playing);
+      else if (key === 'arrowright') step(1);
+      else if (key === 'arrowleft') step(-1);
+      else if (key === 'home') jumpTo(0);
+      else if (key === 'end') jumpTo(Math.max(0, order.length - 1));
+      else if (key === 'escape') onClose();
+      else return;
+      e.preventDefault();
+      setIsIdle(false);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  const handleExport = async () => {
+    const controller = new AbortController();
+    exportRef.current = controller;
+    setExportError(null);
+    setExportProgress(0);
+    setIsPlaying(false);
+    try {
+      const video = await recordSlideshow(order, settings, setExportProgress, controller.signal);
+      downloadBlob(video, `bao-retro-slideshow-${fileStamp()}.webm`);
+    } catch (err) {
+      if ((err as Error).name !== 'AbortError') {
+        console.error('Failed to record slideshow', err);
+        setExportError((err as Error).message || 'Recording failed');
+      }
+    } finally {
+      exportRef.current = null;
+      setExportProgress(null);
+    }
+  };
+
+  const isExporting = exportProgress !== null;
+  const showControls = !isIdle || !isPlaying || isExporting;
+
+  return (
+    <div
+      ref={containerRef}
+      className={`fixed inset-0 z-[100] bg-stone-900 ${showControls ? '' : 'cursor-none'}`}
+      onPointerMove={() => setIsIdle(false)}
+      role="dialog"
+      aria-modal="true"
+      aria-label="Slideshow"
+    >
+      <canvas ref={canvasRef} className="absolute inset-0 w-full h-full" onClick={() => setIsPlaying(playing => !playing)} />
+
+      <p className="sr-only" aria-live="polite">{caption}</p>
+
+      {order.length === 0 && (
+        <p className="absolute inset-0 flex items-center justify-center font-handwritten text-2xl text-stone-400">
+          {photos.length > 0 ? 'Every photo is still developing…' : 'No photos to show yet'}
+        </p>
+      )}
+
+      <button
+        onClick={onClose}
+        className={`absolute top-4 right-4 p-3 rounded-full bg-white/10 text-white hover:bg-white/20 transition-opacity ${showControls ? 'opacity-100' : 'opacity-0'}`}
+        title="Close slideshow (Esc)"
+        aria-label="Close slideshow"
+      >
+        <X size={20} />
+      </button>
+
+      <div
+        className={`absolute bottom-0 inset-x-0 p-4 flex flex-col items-center gap-3 bg-gradient-to-t from-black/70 to-transparent transition-opacity duration-300 ${
+          showControls ? 'opacity-100' : 'opacity-0 pointer-events-none'
+        }`}
+      >
+        <div className="flex items-center gap-3 text-white">
+          <button onClick={() => step(-1)} disabled={order.length < 2} className="p-2 rounded-full hover:bg-white/20 disabled:opacity-40" title="Previous (←)" aria-label="Previous photo">
+            <SkipBack size={20} />
+          </button>
+          <button
+            onClick={() => setIsPlaying(playing => !playing)}
+            className="p-3 rounded-full bg-white text-stone-900 hover:bg-yellow-50"
+            title={isPlaying ? 'Pause (Space)' : 'Play (Space)'}
+            aria-label={isPlaying ? 'Pause' : 'Play'}
+          >
+            {isPlaying ? <Pause size={20} /> : <Play size={20} />}
+          </button>
+          <button onClick={() => step(1)} disabled={order.length < 2} className="p-2 rounded-full hover:bg-white/20 disabled:opacity-40" title="Next (→)" aria-label="Next photo">
+            <SkipForward size={20} />
+          </button>
+          <span className="font-handwritten text-sm text-stone-300 min-w-[4rem] text-center" aria-live="polite">
+            {order.length > 0 ? `${position + 1} / ${order.length}` : '0 / 0'}
+          </span>
+        </div>
+
+        <div className="flex flex-wrap items-center justify-center gap-3">
+          <OptionPicker options={SLIDE_ORDERS} value={settings.order} onChange={order => updateSettings({ order })} title="Order" />
+          <OptionPicker options={SLIDE_INTERVALS} value={settings.interval} onChange={interval => setSettings(prev => ({ ...prev, interval }))} title="Time per photo" />
+          <OptionPicker options={SLIDE_TRANSITIONS} value={settings.transition} onChange={transition => setSettings(prev => ({ ...prev, transition }))} title="Transition" />
+          <label className="flex items-center gap-2 font-handwritten text-sm text-stone-200 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={settings.skipDeveloping}
+              onChange={(e) => updateSettings({ skipDeveloping: e.target.checked })}
+            />
+            Skip developing photos
+          </label>
+          {canRecordVideo() && (
+            isExporting ? (
+              <button
+                onClick={() => exportRef.current?.abort()}
+                className="flex items-center gap-2 px-3 py-1 rounded-full bg-white/90 font-handwritten text-sm text-gray-700 hover:bg-yellow-50"
+                title="Stop recording"
+              >
+                <Loader2 size={14} className="animate-spin" />
+                Recording {Math.round(exportProgress * 100)}% · Cancel
+              </button>
+            ) : (
+              <button
+                onClick={handleExport}
+                disabled={order.length === 0}
+                className="flex items-center gap-2 px-3 py-1 rounded-full bg-white/90 font-handwritten text-sm text-gray-700 hover:bg-yellow-50 disabled:opacity-40"
+                title="Save the slideshow as a WebM video; it records in real time"
+              >
+                <Film size={14} />
+                Save video
+              </button>
+            )
+          )}
+        </div>
+        {exportError && <p className="font-handwritten text-sm text-red-300" role="alert">{exportError}</p>}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,139 @@
+import React, { useState } from 'react';
+import { ZoomIn, ZoomOut, Scan } from 'lucide-react';
+import { PhotoData } from '../types';
+import { Rect, boundingRect, cardRect, unionRect } from '../services/wallLayout';
+import { WallViewport, ZOOM_STEP, MIN_ZOOM, MAX_ZOOM, zoomAt, centreOn, visibleWallRect } from '../services/wallViewport';
+
+interface WallNavigatorProps {
+  photos: PhotoData[]; // The cards shown on the wall
+  selectedIds: Set<string>;
+  viewport: WallViewport;
+  screen: { width: number, height: number }; // Size of the window the wall fills
+  onChange: (viewport: WallViewport) => void;
+  onFitAll: () => void;
+  className?: string;
+}
+
+const MINIMAP_WIDTH = 160;
+const MINIMAP_HEIGHT = 112;
+const MINIMAP_PADDING = 200; // Wall pixels of breathing room around everything
+
+const buttonClass = "bg-white p-2 rounded-full shadow-md hover:bg-yellow-50 text-gray-700 transition-colors disabled:opacity-40";
+
+export const WallNavigator: React.FC<WallNavigatorProps> = ({
+  photos,
+  selectedIds,
+  viewport,
+  screen,
+  onChange,
+  onFitAll,
+  className
+}) => {
+  // Held still while dragging on the minimap, or the map would shift under the pointer
+  const [dragBounds, setDragBounds] = useState<Rect | null>(null);
+
+  const centre = { x: screen.width / 2, y: screen.height / 2 };
+  const visible = visibleWallRect(viewport, screen);
+  const content = photos.length > 0 ? unionRect(boundingRect(photos), visible) : visible;
+  const bounds = dragBounds ?? {
+    x: content.x - MINIMAP_PADDING,
+    y: content.y - MINIMAP_PADDING,
+    width: content.width + MINIMAP_PADDING * 2,
+    height: content.height + MINIMAP_PADDING * 2,
+  };
+
+  // Fit the wall area into the minimap, centred
+  const mapScale = Math.min(MINIMAP_WIDTH / bounds.width, MINIMAP_HEIGHT / bounds.height);
+  const offset = {
+    x: (MINIMAP_WIDTH - bounds.width * mapScale) / 2,
+    y: (MINIMAP_HEIGHT - bounds.height * mapScale) / 2,
+  };
+  const toMap = (rect: Rect): React.CSSProperties => ({
+    left: offset.x + (rect.x - bounds.x) * mapScale,
+    top: offset.y + (rect.y - bounds.y) * mapScale,
+    width: Math.max(2, rect.width * mapScale),
+    height: Math.max(2, rect.height * mapScale),
+  });
+
+  // Centres the view on the wall point under the pointer
+  const jumpTo = (e: React.PointerEvent<HTMLDivElement>, area: Rect) => {
+    const box = e.currentTarget.getBoundingClientRect();
+    const point = {
+      x: area.x + (e.clientX - box.left - offset.x) / mapScale,
+      y: area.y + (e.clientY - box.top - offset.y) / mapScale,
+    };
+    onChange(centreOn(point, viewport.scale, screen));
+  };
+
+  return (
+    <div className={`flex flex-col items-end gap-2 font-handwritten text-gray-700 ${className ?? ''}`}>
+      {photos.length > 0 && (
+        <div
+          className="relative bg-white/80 rounded-lg shadow-md overflow-hidden cursor-pointer touch-none"
+          style={{ width: MINIMAP_WIDTH, height: MINIMAP_HEIGHT }}
+          title="Click or drag to move around the wall"
+          aria-hidden="true" // The zoom buttons and keys cover the same ground for screen readers
+          onPointerDown={(e) => {
+            e.currentTarget.setPointerCapture(e.pointerId);
+            setDragBounds(bounds);
+            jumpTo(e, bounds);
+          }}
+          onPointerMove={(e) => dragBounds && jumpTo(e, dragBounds)}
+          onPointerUp={() => setDragBounds(null)}
+          onPointerCancel={() => setDragBounds(null)}
+        >
+          {photos.map(photo => (
+            <div
+              key={photo.id}
+              className={`absolute ${selectedIds.has(photo.id) ? 'bg-blue-400' : 'bg-gray-400'}`}
+              style={toMap(cardRect(photo))}
+            />
+          ))}
+          <div className="absolute border-2 border-red-400 rounded-sm pointer-events-none" style={toMap(visible)} />
+        </div>
+      )}
+
+      <div className="flex items-center gap-2" role="group" aria-label="Zoom">
+        <button
+          onClick={() => onChange(zoomAt(viewport, 1 / ZOOM_STEP, centre))}
+          disabled={viewport.scale <= MIN_ZOOM}
+          className={buttonClass}
+          title="Zoom out (-)"
+          aria-label="Zoom out"
+          aria-keyshortcuts="-"
+        >
+          <ZoomOut size={16} />
+        </button>
+        <button
+          onClick={() => onChange(zoomAt(viewport, 1 / viewport.scale, centre))}
+          className="bg-white px-2 py-1 rounded-full shadow-md hover:bg-yellow-50 text-sm w-16 transition-colors"
+          title="Back to 100% (0)"
+          aria-label={`Zoom ${Math.round(viewport.scale * 100)}%, reset to 100%`}
+          aria-keyshortcuts="0"
+        >
+          {Math.round(viewport.scale * 100)}%
+        </button>
+        <button
+          onClick={() => onChange(zoomAt(viewport, ZOOM_STEP, centre))}
+          disabled={viewport.scale >= MAX_ZOOM}
+          className={buttonClass}
+          title="Zoom in (+)"
+          aria-label="Zoom in"
+          aria-keyshortcuts="+"
+        >
+          <ZoomIn size={16} />
+        </button>
+        <button
+          onClick={onFitAll}
+          disabled={photos.length === 0}
+          className={buttonClass}
+          title="Fit all photos (F)"
+          aria-label="Fit all photos on screen"
+          aria-keyshortcuts="F"
+        >
+          <Scan size={16} />
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,184 @@
+import React, { useState } from 'react';
+import { ChevronDown, Plus, Pencil, Check, Trash2 } from 'lucide-react';
+import { PhotoData, WallBackgroundId, WallData } from '../types';
+import { WALL_BACKGROUNDS, getWallBackground, wallCover } from '../services/walls';
+import { CAPTION_LANGUAGES } from '../services/captionLanguages';
+import { OptionPicker } from './OptionPicker';
+
+interface WallSwitcherProps {
+  walls: WallData[];
+  activeWallId?: string;
+  photos: PhotoData[]; // Every photo, for counts and covers
+  onSwitch: (id: string) => void;
+  onCreate: (name: string) => void;
+  onRename: (id: string, name: string) => void;
+  onChangeBackground: (id: string, background: WallBackgroundId) => void;
+  onChangeLanguage: (id: string, language: string | undefined) => void; // undefined follows the browser
+  onDelete: (id: string) => void;
+  className?: string;
+}
+
+const formatCreated = (timestamp: number) =>
+  new Date(timestamp).toLocaleDateString(undefined, { year: 'numeric', month: 'short', day: 'numeric' });
+
+export const WallSwitcher: React.FC<WallSwitcherProps> = ({
+  walls,
+  activeWallId,
+  photos,
+  onSwitch,
+  onCreate,
+  onRename,
+  onChangeBackground,
+  onChangeLanguage,
+  onDelete,
+  className
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [newName, setNewName] = useState('');
+  const [renaming, setRenaming] = useState<string | null>(null); // Draft name while renaming the active wall
+  const activeWall = walls.find(wall => wall.id === activeWallId);
+  if (!activeWall) return null;
+
+  const countOn = (wall: WallData) => photos.filter(p => p.wallId === wall.id).length;
+  const activeCount = countOn(activeWall);
+
+  const createWall = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newName.trim()) return;
+    onCreate(newName);
+    setNewName('');
+    setIsOpen(false);
+  };
+
+  const saveName = () => {
+    if (renaming?.trim()) onRename(activeWall.id, renaming.trim());
+    setRenaming(null);
+  };
+
+  return (
+    <div className={`relative font-handwritten text-gray-700 ${className ?? ''}`}>
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        className="flex items-center gap-2 bg-white/90 pl-2 pr-3 py-1 rounded-full shadow-md hover:bg-yellow-50 transition-colors"
+        title="Switch wall"
+        aria-haspopup="dialog"
+        aria-expanded={isOpen}
+      >
+        <WallThumb wall={activeWall} photos={photos} />
+        <span className="max-w-[10rem] truncate">{activeWall.name}</span>
+        <ChevronDown size={16} />
+      </button>
+
+      {isOpen && (
+        <div className="absolute left-0 mt-2 w-72 bg-white rounded-xl shadow-xl p-3 flex flex-col gap-2">
+          <ul className="flex flex-col gap-1 max-h-64 overflow-y-auto">
+            {walls.map(wall => (
+              <li key={wall.id}>
+                <button
+                  onClick={() => { onSwitch(wall.id); setIsOpen(false); }}
+                  aria-current={wall.id === activeWall.id ? 'true' : undefined}
+                  className={`w-full flex items-center gap-2 p-1 rounded-lg text-left transition-colors ${
+                    wall.id === activeWall.id ? 'bg-yellow-50' : 'hover:bg-gray-50'
+                  }`}
+                >
+                  <WallThumb wall={wall} photos={photos} />
+                  <span className="flex-1 min-w-0">
+                    <span className="block truncate">{wall.name}</span>
+                    <span className="block font-sans text-[10px] text-gray-400">
+                      {countOn(wall)} photo{countOn(wall) === 1 ? '' : 's'} · created {formatCreated(wall.createdAt)}
+                    </span>
+                  </span>
+                </button>
+              </li>
+            ))}
+          </ul>
+
+          <form onSubmit={createWall} className="flex items-center gap-2 border-t border-gray-100 pt-2">
+            <input
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              placeholder="New wall, e.g. Team offsite"
+              aria-label="New wall name"
+              className="flex-1 min-w-0 border-b border-gray-300 focus:outline-none text-sm bg-transparent"
+            />
+            <button type="submit" disabled={!newName.trim()} className="text-gray-500 hover:text-gray-800 disabled:opacity-40" title="Create wall">
+              <Plus size={16} />
+            </button>
+          </form>
+
+          <div className="flex flex-col gap-2 border-t border-gray-100 pt-2 text-sm">
+            <div className="flex items-center gap-2">
+              {renaming !== null ? (
+                <>
+                  <input
+                    value={renaming}
+                    onChange={(e) => setRenaming(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') saveName();
+                      if (e.key === 'Escape') setRenaming(null);
+                    }}
+                    className="flex-1 min-w-0 border-b border-gray-300 focus:outline-none bg-yellow-50"
+                    aria-label="Wall name"
+                    autoFocus
+                  />
+                  <button onClick={saveName} className="text-green-600" title="Save name"><Check size={14} /></button>
+                </>
+              ) : (
+                <>
+                  <span className="flex-1 truncate">This wall: {activeWall.name}</span>
+                  <button onClick={() => setRenaming(activeWall.name)} className="text-gray-400 hover:text-gray-600" title="Rename wall">
+                    <Pencil size={14} />
+                  </button>
+                </>
+              )}
+              <button
+                onClick={() => { onDelete(activeWall.id); setIsOpen(false); }}
+                disabled={walls.length < 2 || activeCount > 0}
+                className="text-red-400 hover:text-red-600 disabled:opacity-30"
+                title={walls.length < 2 ? "The last wall can't be deleted" : activeCount > 0 ? 'Move or delete its photos first' : 'Delete wall'}
+              >
+                <Trash2 size={14} />
+              </button>
+            </div>
+            <OptionPicker
+              options={WALL_BACKGROUNDS}
+              value={activeWall.background}
+              onChange={(background) => onChangeBackground(activeWall.id, background)}
+              title="Background"
+              className="justify-start"
+            />
+            <label className="flex items-center justify-between gap-2 text-sm text-gray-600">
+              Captions in
+              <select
+                value={activeWall.captionLanguage ?? ''}
+                onChange={(e) => onChangeLanguage(activeWall.id, e.target.value || undefined)}
+                className="font-sans text-xs bg-white border border-gray-300 rounded-full px-2 py-1 focus:outline-none focus:ring-2 focus:ring-yellow-300"
+              >
+                <option value="">Browser language</option>
+                {CAPTION_LANGUAGES.map(language => (
+                  <option key={language.code} value={language.code} lang={language.code}>{language.label}</option>
+                ))}
+              </select>
+            </label>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+// Small square of the wall's cover photo, or its background when it has none
+const WallThumb: React.FC<{ wall: WallData, photos: PhotoData[] }> = ({ wall, photos }) => {
+  const cover = wallCover(wall, photos);
+  const { background } = getWallBackground(wall.background);
+  return cover ? (
+    <img
+      src={cover.imageData}
+      alt=""
+      className="w-8 h-8 rounded-md object-cover shrink-0"
+      style={{ transform: cover.mirrored ? 'scaleX(-1)' : undefined }}
+    />
+  ) : (
+    <span className="w-8 h-8 rounded-md shrink-0 border border-gray-200" style={{ background }} />
+  );
+};
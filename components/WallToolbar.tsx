@@ -0,0 +1,124 @@
+import React from 'react';
+import { BringToFront, SendToBack, Trash2, X, LayoutGrid, Layers, GalleryHorizontal, Undo2, Redo2, ImageIcon } from 'lucide-react';
+import { WallData } from '../types';
+import { ArrangeLayout } from '../services/wallLayout';
+
+interface WallToolbarProps {
+  selectedCount: number;
+  totalCount: number;
+  onBringToFront: () => void;
+  onSendToBack: () => void;
+  onDeleteSelected: () => void;
+  onClearSelection: () => void;
+  onArrange: (layout: ArrangeLayout) => void;
+  otherWalls: WallData[]; // Where the selection can be moved or copied to
+  onSendToWall: (wallId: string, copy: boolean) => void;
+  onSetCover: () => void; // Make the single selected photo the wall's cover
+  undoLabel?: string; // Name of the step Undo would revert, if any
+  redoLabel?: string;
+  onUndo: () => void;
+  onRedo: () => void;
+  className?: string;
+}
+
+const LAYOUTS: { id: ArrangeLayout; label: string; icon: React.ReactNode }[] = [
+  { id: 'grid', label: 'Grid', icon: <LayoutGrid size={16} /> },
+  { id: 'pile', label: 'Pile', icon: <Layers size={16} /> },
+  { id: 'timeline', label: 'Timeline', icon: <GalleryHorizontal size={16} /> },
+];
+
+const buttonClass = "bg-white p-2 rounded-full shadow-md hover:bg-yellow-50 text-gray-700 transition-colors";
+
+export const WallToolbar: React.FC<WallToolbarProps> = ({
+  selectedCount,
+  totalCount,
+  onBringToFront,
+  onSendToBack,
+  onDeleteSelected,
+  onClearSelection,
+  onArrange,
+  otherWalls,
+  onSendToWall,
+  onSetCover,
+  undoLabel,
+  redoLabel,
+  onUndo,
+  onRedo,
+  className
+}) => {
+  if (totalCount === 0 && !undoLabel && !redoLabel) return null;
+  const scope = selectedCount > 0 ? 'selected photos' : 'all photos';
+
+  return (
+    <div className={`flex flex-col gap-2 font-handwritten text-gray-700 ${className ?? ''}`}>
+      <div className="flex items-center gap-2">
+        <span className="text-sm w-16">History</span>
+        <button onClick={onUndo} disabled={!undoLabel} className={`${buttonClass} disabled:opacity-40`} title={undoLabel ? `Undo ${undoLabel} (Ctrl+Z)` : 'Nothing to undo'}>
+          <Undo2 size={16} />
+        </button>
+        <button onClick={onRedo} disabled={!redoLabel} className={`${buttonClass} disabled:opacity-40`} title={redoLabel ? `Redo ${redoLabel} (Ctrl+Shift+Z)` : 'Nothing to redo'}>
+          <Redo2 size={16} />
+        </button>
+      </div>
+
+      {totalCount > 0 && (
+        <div className="flex items-center gap-2">
+          <span className="text-sm w-16">Arrange</span>
+          {LAYOUTS.map(layout => (
+            <button
+              key={layout.id}
+              onClick={() => onArrange(layout.id)}
+              className={buttonClass}
+              title={`${layout.label}: ${scope}`}
+            >
+              {layout.icon}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {selectedCount > 0 && (
+        <div className="flex items-center gap-2">
+          <span className="text-sm w-16">{selectedCount} picked</span>
+          <button onClick={onBringToFront} className={buttonClass} title="Bring to front">
+            <BringToFront size={16} />
+          </button>
+          <button onClick={onSendToBack} className={buttonClass} title="Send to back">
+            <SendToBack size={16} />
+          </button>
+          {selectedCount === 1 && (
+            <button onClick={onSetCover} className={buttonClass} title="Use as wall cover">
+              <ImageIcon size={16} />
+            </button>
+          )}
+          {otherWalls.length > 0 && (
+            <select
+              value=""
+              onChange={(e) => {
+                const [action, wallId] = e.target.value.split(':');
+                if (wallId) onSendToWall(wallId, action === 'copy');
+              }}
+              className="font-sans text-xs bg-white rounded-full shadow-md px-2 py-2 text-gray-700"
+              title="Move or copy to another wall"
+              aria-label="Move or copy to another wall"
+            >
+              <option value="">Send to…</option>
+              <optgroup label="Move to">
+                {otherWalls.map(wall => <option key={wall.id} value={`move:${wall.id}`}>{wall.name}</option>)}
+              </optgroup>
+              <optgroup label="Copy to">
+                {otherWalls.map(wall => <option key={wall.id} value={`copy:${wall.id}`}>{wall.name}</option>)}
+              </optgroup>
+            </select>
+          )}
+          <button onClick={onDeleteSelected} className={`${buttonClass} text-red-500 hover:bg-red-50`} title="Delete selected">
+            <Trash2 size={16} />
+          </button>
+          <button onClick={onClearSelection} className={buttonClass} title="Clear selection">
+            <X size={16} />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,101 @@
+// Serves the built app together with the caption endpoint, so the camera can
+// run anywhere Node does without Vite. `npm run build` bundles it into
+// dist-ssr next to the app in dist; `npm start` runs it.
+//
+// PORT changes the port (default 3000). The caption settings come from the
+// environment, or from .env.local and .env in the working directory.
+import { createServer, ServerResponse } from 'http';
+import { createReadStream } from 'fs';
+import { stat } from 'fs/promises';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { CAPTION_ENDPOINT, TRANSLATE_ENDPOINT } from '../services/captionService';
+import { captionLimitsFromEnv, createCaptionHandlers, resolveCaptionProvider } from './captionEndpoint';
+
+const DEFAULT_PORT = 3000;
+const APP_DIR = fileURLToPath(new URL('../dist', import.meta.url));
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'text/javascript; charset=utf-8',
+  '.css': 'text/css; charset=utf-8',
+  '.json': 'application/json',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.webp': 'image/webp',
+  '.ico': 'image/x-icon',
+  '.woff2': 'font/woff2',
+  '.txt': 'text/plain; charset=utf-8',
+};
+
+// Variables already set win over the files, as with Vite
+for (const file of ['.env.local', '.env']) {
+  try {
+    process.loadEnvFile(file);
+  } catch {
+    // Not there; the environment alone will do
+  }
+}
+
+const sendText = (res: ServerResponse, status: number, text: string) => {
+  res.writeHead(status, { 'Content-Type': 'text/plain; charset=utf-8' });
+  res.end(text);
+};
+
+const findFile = async (pathname: string): Promise<string | null> => {
+  let requested: string;
+  try {
+    requested = decodeURIComponent(pathname);
+  } catch {
+    return null;
+  }
+  const file = path.join(APP_DIR, path.normalize(requested));
+  if (!file.startsWith(APP_DIR + path.sep)) return null;
+  const info = await stat(file).catch(() => null);
+  return info?.isFile() ? file : null;
+};
+
+const serveApp = async (res: ServerResponse, pathname: string, method: string) => {
+  // The app has no routes of its own, so anything that isn't a file gets the page
+  const file = (await findFile(pathname)) ?? path.join(APP_DIR, 'index.html');
+  const info = await stat(file).catch(() => null);
+  if (!info) {
+    sendText(res, 404, 'The app has not been built yet; run `npm run build` first');
+    return;
+  }
+  res.writeHead(200, {
+    'Content-Type': CONTENT_TYPES[path.extname(file)] ?? 'application/octet-stream',
+    'Content-Length': info.size,
+    // Vite puts a content hash in every asset's name; the page itself must stay fresh
+    'Cache-Control': file.startsWith(path.join(APP_DIR, 'assets') + path.sep) ? 'public, max-age=31536000, immutable' : 'no-cache',
+  });
+  if (method === 'HEAD') {
+    res.end();
+    return;
+  }
+  createReadStream(file).pipe(res);
+};
+
+const handlers = createCaptionHandlers(resolveCaptionProvider(process.env), captionLimitsFromEnv(process.env));
+const port = Number(process.env.PORT) || DEFAULT_PORT;
+
+const server = createServer((req, res) => {
+  const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+  if (pathname === CAPTION_ENDPOINT) {
+    void handlers.caption(req, res);
+  } else if (pathname === TRANSLATE_ENDPOINT) {
+    void handlers.translate(req, res);
+  } else if (req.method === 'GET' || req.method === 'HEAD') {
+    serveApp(res, pathname, req.method).catch(err => {
+      console.error('Serving the app failed:', err);
+      if (!res.headersSent) sendText(res, 500, 'Something went wrong');
+      else res.destroy();
+    });
+  } else {
+    res.writeHead(405, { Allow: 'GET, HEAD' });
+    res.end();
+  }
+});
+
+server.listen(port, () => console.log(`Retro camera listening on http://localhost:${port}`));
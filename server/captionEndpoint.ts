@@ -0,0 +1,264 @@
+// The caption endpoint the browser calls (services/captionService.ts), which
+// also translates captions. It holds the model's API key, so the key never
+// reaches the page. Vite mounts it on both `npm run dev` and `npm run preview`
+// (see vite.config.ts), and server/appServer.ts serves it with the built app.
+import type { IncomingMessage, ServerResponse } from 'http';
+import type { Plugin } from 'vite';
+import { CaptionErrorKind, CaptionProvider, CaptionStyleId } from '../types';
+import { CAPTION_STYLES } from '../services/captionStyles';
+import { CAPTION_ENDPOINT, TRANSLATE_ENDPOINT } from '../services/captionService';
+import { CaptionError, toCaptionError } from '../services/captionErrors';
+import { isRecord } from '../services/guards';
+import { createGeminiCaptionProvider } from '../services/geminiService';
+import { createOpenAICompatibleCaptionProvider, templateCaptionProvider, mockCaptionProvider } from '../services/localCaptionService';
+
+export interface CaptionEndpointLimits {
+  maxImageBytes: number; // Decoded size of one photo
+  requestsPerMinute: number; // Per client address
+}
+
+export const DEFAULT_CAPTION_LIMITS: CaptionEndpointLimits = {
+  maxImageBytes: 10 * 1024 * 1024, // A full-resolution photo strip as PNG
+  requestsPerMinute: 30,
+};
+
+const RATE_WINDOW_MS = 60 * 1000;
+const DEFAULT_LANGUAGE = 'en-US';
+const MAX_TRANSLATE_LENGTH = 500; // Captions are a handful of words; anything longer isn't one
+
+// What each failure looks like over HTTP; the body names the kind so the browser needn't guess
+const STATUS_FOR: Record<CaptionErrorKind, number> = {
+  rate_limited: 429,
+  auth: 502,
+  missing_key: 503,
+  timeout: 504,
+  network: 502,
+  too_large: 413,
+  cancelled: 499,
+  unknown: 502,
+};
+
+// Only plain BCP 47 codes go into the prompt
+const LANGUAGE_PATTERN = /^[a-zA-Z]{2,3}(-[a-zA-Z0-9]{2,8}){0,3}$/;
+const IMAGE_PATTERN = /^data:image\/(png|jpe?g|webp);base64,[A-Za-z0-9+/]+=*$/;
+
+/**
+ * Picks the model from the server's environment: CAPTION_PROVIDER is "gemini"
+ * (default), "openai", "template" or "mock".
+ */
+export const resolveCaptionProvider = (env: Record<string, string | undefined>): CaptionProvider => {
+  switch (env.CAPTION_PROVIDER) {
+    case 'openai':
+      return createOpenAICompatibleCaptionProvider({ baseUrl: env.CAPTION_API_URL, apiKey: env.CAPTION_API_KEY, model: env.CAPTION_MODEL });
+    case 'template':
+      return templateCaptionProvider;
+    case 'mock':
+      return mockCaptionProvider;
+    default:
+      if (env.CAPTION_PROVIDER && env.CAPTION_PROVIDER !== 'gemini') {
+        console.warn(`Unknown CAPTION_PROVIDER "${env.CAPTION_PROVIDER}", falling back to gemini`);
+      }
+      return createGeminiCaptionProvider(env.GEMINI_API_KEY);
+  }
+};
+
+/**
+ * Counts requests per key over a sliding minute.
+ * @returns A check that gives how long to wait before trying again, or 0 to go ahead.
+ */
+export const createRateLimiter = (perMinute: number) => {
+  const recent = new Map<string, number[]>();
+  let lastSweep = 0;
+  return (key: string, now: number = Date.now()): number => {
+    // Forget keys that have gone quiet, so the map doesn't keep every address ever seen
+    if (now - lastSweep >= RATE_WINDOW_MS) {
+      recent.forEach((times, known) => {
+        if (now - times[times.length - 1] >= RATE_WINDOW_MS) recent.delete(known);
+      });
+      lastSweep = now;
+    }
+    const times = (recent.get(key) ?? []).filter(time => now - time < RATE_WINDOW_MS);
+    if (times.length >= perMinute) {
+      recent.set(key, times);
+      return times[0] + RATE_WINDOW_MS - now;
+    }
+    times.push(now);
+    recent.set(key, times);
+    return 0;
+  };
+};
+
+const sendJson = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+  if (res.headersSent || res.writableEnded) return;
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+};
+
+const sendError = (res: ServerResponse, kind: CaptionErrorKind, message: string, status = STATUS_FOR[kind], headers?: Record<string, string>) =>
+  sendJson(res, status, { error: kind, message }, headers);
+
+// Reads the request body, giving up once it passes the limit. The rest is
+// drained rather than cut off, so the client gets the 413 instead of a dropped
+// connection it would retry.
+const readBody = (req: IncomingMessage, limit: number): Promise<string | null> =>
+  new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    const collect = (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > limit) {
+        req.off('data', collect);
+        req.resume();
+        chunks.length = 0;
+        resolve(null);
+        return;
+      }
+      chunks.push(chunk);
+    };
+    req.on('data', collect);
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+
+type Handler = (req: IncomingMessage, res: ServerResponse) => Promise<void>;
+
+class BadRequest extends Error {}
+class NotSupported extends Error {} // By this server's provider; another one could
+
+const isCaptionStyle = (value: unknown): value is CaptionStyleId => CAPTION_STYLES.some(s => s.id === value);
+
+/**
+ * The endpoint's two routes, sharing one rate limit:
+ * - caption: POST {image, style, language} answers {caption, tags}
+ * - translate: POST {text, language} answers {text}
+ * Failures answer {error, message} with a matching status.
+ * @param provider The model to caption with.
+ */
+export const createCaptionHandlers = (
+  provider: CaptionProvider,
+  limits: CaptionEndpointLimits = DEFAULT_CAPTION_LIMITS
+): { caption: Handler; translate: Handler } => {
+  const checkRate = createRateLimiter(limits.requestsPerMinute);
+  const tooLarge = `Photos can be at most ${Math.round(limits.maxImageBytes / 1024 / 1024)} MB`;
+
+  const checkLanguage = (language: unknown): string => {
+    if (language === undefined) return DEFAULT_LANGUAGE;
+    if (typeof language !== 'string' || !LANGUAGE_PATTERN.test(language)) {
+      throw new BadRequest('"language" should be a language code like en-US');
+    }
+    return language;
+  };
+
+  // Everything both routes do around the model call itself
+  const handleJson = (maxBodyBytes: number, respond: (request: Record<string, unknown>, signal: AbortSignal) => Promise<unknown>): Handler =>
+    async (req, res) => {
+      if (req.method !== 'POST') {
+        sendJson(res, 405, { error: 'unknown', message: 'Use POST' }, { Allow: 'POST' });
+        return;
+      }
+
+      const retryAfterMs = checkRate(req.socket.remoteAddress ?? 'unknown');
+      if (retryAfterMs > 0) {
+        const seconds = String(Math.ceil(retryAfterMs / 1000));
+        sendError(res, 'rate_limited', `Too many captions, try again in ${seconds}s`, undefined, { 'Retry-After': seconds });
+        return;
+      }
+
+      // Closed afterwards, so the client stops sending the rest
+      const tooLargeHeaders = { Connection: 'close' };
+      if (Number(req.headers['content-length']) > maxBodyBytes) {
+        req.resume();
+        sendError(res, 'too_large', tooLarge, undefined, tooLargeHeaders);
+        return;
+      }
+      const body = await readBody(req, maxBodyBytes).catch(() => null);
+      if (body === null) {
+        sendError(res, 'too_large', tooLarge, undefined, tooLargeHeaders);
+        return;
+      }
+
+      // Stop paying for a reply nobody is waiting for
+      const controller = new AbortController();
+      res.on('close', () => controller.abort());
+
+      try {
+        let request: unknown;
+        try {
+          request = JSON.parse(body);
+        } catch {
+          throw new BadRequest('The request should be JSON');
+        }
+        if (!isRecord(request)) throw new BadRequest('The request should be a JSON object');
+        sendJson(res, 200, await respond(request, controller.signal));
+      } catch (err) {
+        if (err instanceof BadRequest || err instanceof NotSupported) {
+          sendError(res, 'unknown', err.message, err instanceof BadRequest ? 400 : 501);
+          return;
+        }
+        const error = toCaptionError(err);
+        if (error.kind !== 'cancelled') console.error(`Caption endpoint failed (${provider.id}):`, error.message);
+        sendError(res, error.kind, error.message);
+      }
+    };
+
+  // Base64 is a third bigger than the image, plus room for the rest of the JSON
+  const caption = handleJson(Math.ceil(limits.maxImageBytes * 4 / 3) + 4096, async ({ image, style, language }, signal) => {
+    if (typeof image !== 'string' || !IMAGE_PATTERN.test(image)) {
+      throw new BadRequest('"image" should be a PNG, JPEG or WebP data URL');
+    }
+    if (!isCaptionStyle(style)) {
+      throw new BadRequest(`"style" should be one of ${CAPTION_STYLES.map(s => s.id).join(', ')}`);
+    }
+    const code = checkLanguage(language);
+    const base64Length = image.length - image.indexOf(',') - 1;
+    if (base64Length * 3 / 4 > limits.maxImageBytes) {
+      throw new CaptionError('too_large', tooLarge);
+    }
+    const { caption, tags } = await provider.generateCaption(image, style, signal, code);
+    return { caption, tags };
+  });
+
+  const translate = handleJson(MAX_TRANSLATE_LENGTH * 4 + 1024, async ({ text, language }, signal) => {
+    if (typeof text !== 'string' || !text.trim() || text.length > MAX_TRANSLATE_LENGTH) {
+      throw new BadRequest(`"text" should be a caption of at most ${MAX_TRANSLATE_LENGTH} characters`);
+    }
+    const code = checkLanguage(language);
+    if (!provider.translateCaption) {
+      throw new NotSupported(`The ${provider.id} captioner can't translate; pick another CAPTION_PROVIDER`);
+    }
+    return { text: await provider.translateCaption(text, code, signal) };
+  });
+
+  return { caption, translate };
+};
+
+const positiveNumber = (value: string | undefined, fallback: number) =>
+  Number(value) > 0 ? Number(value) : fallback;
+
+/**
+ * Reads the limits from the server's environment: CAPTION_MAX_IMAGE_MB and
+ * CAPTION_RATE_LIMIT (requests per minute).
+ */
+export const captionLimitsFromEnv = (env: Record<string, string | undefined>): CaptionEndpointLimits => ({
+  maxImageBytes: positiveNumber(env.CAPTION_MAX_IMAGE_MB, DEFAULT_CAPTION_LIMITS.maxImageBytes / 1024 / 1024) * 1024 * 1024,
+  requestsPerMinute: positiveNumber(env.CAPTION_RATE_LIMIT, DEFAULT_CAPTION_LIMITS.requestsPerMinute),
+});
+
+/**
+ * Serves the caption and translate routes from Vite's dev and preview servers.
+ * @param env The server's environment, including .env.local.
+ */
+export const captionEndpointPlugin = (env: Record<string, string | undefined>): Plugin => {
+  const handlers = createCaptionHandlers(resolveCaptionProvider(env), captionLimitsFromEnv(env));
+  // Returns nothing on purpose: a function returned from these hooks would run as a late middleware
+  const mount = (server: { middlewares: { use: (path: string, handle: Handler) => unknown } }) => {
+    server.middlewares.use(CAPTION_ENDPOINT, handlers.caption);
+    server.middlewares.use(TRANSLATE_ENDPOINT, handlers.translate);
+  };
+
+  return {
+    name: 'caption-endpoint',
+    configureServer: mount,
+    configurePreviewServer: mount,
+  };
+};
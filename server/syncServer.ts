@@ -0,0 +1,116 @@
+// Relay for shared walls. Everyone who joins the same room gets every photo
+// add, move, caption and delete from the others. The server keeps the merged
+// state of each room in memory so late joiners catch up, and resolves
+// conflicting edits the same way the browsers do (services/syncProtocol.ts).
+//
+// Run with `npm run sync-server`, which bundles it into dist-ssr first;
+// SYNC_PORT changes the port (default 8787).
+import { WebSocketServer, WebSocket } from 'ws';
+import { DEFAULT_SYNC_PORT, MAX_SYNC_MESSAGE_BYTES, resolveOp, opPhotoId, ServerMessage, SyncedPhoto, Stamp, SyncOp } from '../services/syncProtocol';
+import { readSyncOp } from '../services/syncMessages';
+import { isRecord } from '../services/guards';
+
+interface Room {
+  photos: Map<string, SyncedPhoto>;
+  tombstones: Map<string, Stamp>; // Deleted photos, so a late put can't bring them back by accident
+  clock: number; // Highest Lamport clock seen
+  clients: Set<WebSocket>;
+}
+
+const MAX_ROOM_NAME = 64;
+
+const rooms = new Map<string, Room>();
+
+const send = (socket: WebSocket, message: ServerMessage) => {
+  if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+};
+
+const broadcast = (room: Room, message: ServerMessage, except?: WebSocket) => {
+  const data = JSON.stringify(message);
+  room.clients.forEach(client => {
+    if (client !== except && client.readyState === WebSocket.OPEN) client.send(data);
+  });
+};
+
+const getRoom = (name: string): Room => {
+  let room = rooms.get(name);
+  if (!room) {
+    room = { photos: new Map(), tombstones: new Map(), clock: 0, clients: new Set() };
+    rooms.set(name, room);
+  }
+  return room;
+};
+
+/**
+ * Merges an op into the room.
+ * @returns Whether it changed anything, i.e. whether the others need to hear about it.
+ */
+const applyToRoom = (room: Room, op: SyncOp): boolean => {
+  const id = opPhotoId(op);
+  const current = room.photos.get(id);
+  const previousClock = current?.clock ?? (room.tombstones.has(id) ? { fields: {}, deleted: room.tombstones.get(id) } : undefined);
+  const [clock, resolution] = resolveOp(previousClock, !!current, op);
+  room.clock = Math.max(room.clock, op.stamp.clock);
+
+  switch (resolution.effect) {
+    case 'put':
+      room.photos.set(id, { photo: resolution.photo, clock });
+      room.tombstones.delete(id);
+      return true;
+    case 'update':
+      room.photos.set(id, { photo: { ...current!.photo, ...resolution.fields }, clock });
+      return true;
+    case 'delete':
+      room.photos.delete(id);
+      room.tombstones.set(id, clock.deleted!);
+      return true;
+    default:
+      if (clock.deleted) room.tombstones.set(id, clock.deleted);
+      return false;
+  }
+};
+
+const port = Number(process.env.SYNC_PORT) || DEFAULT_SYNC_PORT;
+const server = new WebSocketServer({ port, maxPayload: MAX_SYNC_MESSAGE_BYTES });
+
+server.on('connection', (socket) => {
+  let room: Room | null = null;
+  let roomName = '';
+
+  socket.on('message', (data) => {
+    let message: unknown;
+    try {
+      message = JSON.parse(data.toString());
+    } catch {
+      return;
+    }
+    if (!isRecord(message)) return;
+
+    if (message.type === 'join' && !room && typeof message.room === 'string' && message.room.trim()) {
+      roomName = message.room.trim().slice(0, MAX_ROOM_NAME);
+      room = getRoom(roomName);
+      room.clients.add(socket);
+      send(socket, {
+        type: 'snapshot',
+        photos: [...room.photos.values()],
+        tombstones: Object.fromEntries(room.tombstones),
+        clock: room.clock,
+      });
+      broadcast(room, { type: 'presence', count: room.clients.size });
+    } else if (message.type === 'op' && room) {
+      // Only the checked copy is kept and passed on, so a bad client can't corrupt the room for everyone
+      const op = readSyncOp(message.op);
+      if (op && applyToRoom(room, op)) broadcast(room, { type: 'op', op }, socket);
+    }
+  });
+
+  socket.on('close', () => {
+    if (!room) return;
+    room.clients.delete(socket);
+    // The photos live on in everyone's browsers, and whoever joins next offers theirs back
+    if (room.clients.size === 0) rooms.delete(roomName);
+    else broadcast(room, { type: 'presence', count: room.clients.size });
+  });
+});
+
+server.on('listening', () => console.log(`Wall sync relay listening on ws://localhost:${port}`));
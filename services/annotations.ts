@@ -0,0 +1,134 @@
+import { Annotation, Position } from '../types';
+import { isRecord } from './guards';
+
+export const INK_COLORS = ['#1f2937', '#dc2626', '#2563eb', '#16a34a', '#db2777', '#f59e0b'];
+export const STICKERS = ['⭐', '❤️', '😂', '🎉', '🌸', '😎', '✨', '🔥', '🐶', '🍰'];
+
+export const PEN_WIDTH = 0.012;
+export const STICKER_SIZE = 0.16;
+export const NOTE_SIZE = 0.07;
+export const MAX_NOTE_LENGTH = 60;
+const MAX_ANNOTATIONS = 200;
+const MAX_DOODLE_POINTS = 2000;
+const HANDWRITTEN_FONT = '"Gloria Hallelujah", cursive';
+
+/**
+ * Drops points closer than `minGap` to the previous one; a shaky hand
+ * otherwise stores hundreds of points for a short line.
+ */
+export const simplifyStroke = (points: Position[], minGap: number = 0.004): Position[] =>
+  points.filter((point, i) => i === 0 || i === points.length - 1 ||
+    Math.hypot(point.x - points[i - 1].x, point.y - points[i - 1].y) >= minGap);
+
+/**
+ * SVG path data for a doodle, in a box of the given size.
+ */
+export const doodlePath = (points: Position[], width: number, height: number): string =>
+  points.map((p, i) => `${i === 0 ? 'M' : 'L'}${(p.x * width).toFixed(1)} ${(p.y * height).toFixed(1)}`).join(' ');
+
+/**
+ * Finds the topmost annotation at a point, for the eraser.
+ * @param point Where the card was touched, as fractions of its size.
+ * @param aspect The card's width divided by its height, to measure distances evenly.
+ * @returns The annotation's id, or null when the point is clear.
+ */
+export const annotationAt = (annotations: Annotation[], point: Position, aspect: number): string | null => {
+  // Distances in card widths
+  const distance = (a: Position, b: Position) => Math.hypot(a.x - b.x, (a.y - b.y) / aspect);
+  for (const annotation of [...annotations].reverse()) {
+    if (annotation.type === 'doodle') {
+      if (annotation.points.some(p => distance(p, point) < Math.max(annotation.width, 0.03))) return annotation.id;
+    } else {
+      const reach = annotation.type === 'note'
+        ? Math.max(annotation.size, annotation.text.length * annotation.size * 0.3)
+        : annotation.size / 2;
+      if (distance(annotation.position, point) < reach) return annotation.id;
+    }
+  }
+  return null;
+};
+
+/**
+ * Draws annotations onto a canvas holding a rendering of the card.
+ * @param width Width of the card on the canvas, in the context's units.
+ * @param height Height of the card on the canvas.
+ */
+export const drawAnnotations = (ctx: CanvasRenderingContext2D, annotations: Annotation[], width: number, height: number) => {
+  ctx.save();
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  for (const annotation of annotations) {
+    if (annotation.type === 'doodle') {
+      ctx.strokeStyle = annotation.color;
+      ctx.lineWidth = annotation.width * width;
+      ctx.lineCap = 'round';
+      ctx.lineJoin = 'round';
+      ctx.beginPath();
+      annotation.points.forEach((p, i) => (i === 0 ? ctx.moveTo(p.x * width, p.y * height) : ctx.lineTo(p.x * width, p.y * height)));
+      // A single tap still leaves a dot
+      if (annotation.points.length === 1) ctx.lineTo(annotation.points[0].x * width + 0.01, annotation.points[0].y * height);
+      ctx.stroke();
+      continue;
+    }
+    ctx.save();
+    ctx.translate(annotation.position.x * width, annotation.position.y * height);
+    ctx.rotate((annotation.rotation * Math.PI) / 180);
+    if (annotation.type === 'sticker') {
+      ctx.font = `${annotation.size * width}px sans-serif`;
+      ctx.fillText(annotation.emoji, 0, 0);
+    } else {
+      ctx.fillStyle = annotation.color;
+      ctx.font = `${annotation.size * width}px ${HANDWRITTEN_FONT}`;
+      ctx.fillText(annotation.text, 0, 0);
+    }
+    ctx.restore();
+  }
+  ctx.restore();
+};
+
+const isFraction = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const isPoint = (value: unknown): value is Position => isRecord(value) && isFraction(value.x) && isFraction(value.y);
+const isColor = (value: unknown): value is string => typeof value === 'string' && /^#[0-9a-f]{3,8}$/i.test(value);
+
+const sanitizeAnnotation = (raw: unknown): Annotation | null => {
+  if (!isRecord(raw) || typeof raw.id !== 'string' || !raw.id) return null;
+  const rotation = isFraction(raw.rotation) ? raw.rotation : 0;
+  switch (raw.type) {
+    case 'doodle':
+      if (!isColor(raw.color) || !isFraction(raw.width) || !Array.isArray(raw.points) || !raw.points.every(isPoint)) return null;
+      if (raw.points.length === 0) return null;
+      return {
+        id: raw.id,
+        type: 'doodle',
+        color: raw.color,
+        width: raw.width,
+        points: raw.points.slice(0, MAX_DOODLE_POINTS).map(p => ({ x: p.x, y: p.y })),
+      };
+    case 'sticker':
+      if (typeof raw.emoji !== 'string' || !raw.emoji || !isPoint(raw.position) || !isFraction(raw.size)) return null;
+      return { id: raw.id, type: 'sticker', emoji: raw.emoji.slice(0, 16), position: { x: raw.position.x, y: raw.position.y }, size: raw.size, rotation };
+    case 'note':
+      if (typeof raw.text !== 'string' || !isColor(raw.color) || !isPoint(raw.position) || !isFraction(raw.size)) return null;
+      return {
+        id: raw.id,
+        type: 'note',
+        text: raw.text.slice(0, MAX_NOTE_LENGTH),
+        color: raw.color,
+        position: { x: raw.position.x, y: raw.position.y },
+        size: raw.size,
+        rotation,
+      };
+    default:
+      return null;
+  }
+};
+
+/**
+ * Checks annotations read from an archive or sent by another tab.
+ * @returns The annotations, or undefined when any of them can't be read.
+ */
+export const sanitizeAnnotations = (raw: unknown): Annotation[] | undefined => {
+  if (!Array.isArray(raw) || raw.length > MAX_ANNOTATIONS) return undefined;
+  const annotations = raw.map(sanitizeAnnotation);
+  return annotations.every((a): a is Annotation => a !== null) ? annotations : undefined;
+};
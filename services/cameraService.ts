@@ -0,0 +1,133 @@
+import { CameraSettings, CaptureAspect, CaptureResolution } from '../types';
+
+export const ASPECTS: { id: CaptureAspect; label: string; ratio: number }[] = [
+  { id: '3:4', label: 'Portrait', ratio: 3 / 4 },
+  { id: '1:1', label: 'Square', ratio: 1 },
+  { id: '4:3', label: 'Landscape', ratio: 4 / 3 },
+];
+
+// Long edge of the saved photo in pixels
+export const RESOLUTIONS: { id: CaptureResolution; label: string; longEdge: number }[] = [
+  { id: 'standard', label: 'Standard', longEdge: 800 },
+  { id: 'high', label: 'High', longEdge: 1600 },
+  { id: 'max', label: 'Max', longEdge: 2400 },
+];
+
+export const DEFAULT_CAMERA_SETTINGS: CameraSettings = {
+  aspect: '3:4',
+  resolution: 'standard',
+  mirrorSelfies: false,
+  developSpeed: 'quick',
+};
+
+const SETTINGS_KEY = 'bao-retro-camera:camera-settings';
+
+/**
+ * Width over height for a capture aspect; photos saved without one are 3:4.
+ */
+export const aspectRatio = (aspect?: CaptureAspect): number =>
+  (ASPECTS.find(a => a.id === aspect) ?? ASPECTS[0]).ratio;
+
+/**
+ * Pixel size of a captured photo for the given settings.
+ */
+export const captureSize = (aspect: CaptureAspect, resolution: CaptureResolution): { width: number, height: number } => {
+  const ratio = aspectRatio(aspect);
+  const longEdge = (RESOLUTIONS.find(r => r.id === resolution) ?? RESOLUTIONS[0]).longEdge;
+  return ratio >= 1
+    ? { width: longEdge, height: Math.round(longEdge / ratio) }
+    : { width: Math.round(longEdge * ratio), height: longEdge };
+};
+
+export const loadCameraSettings = (): CameraSettings => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(SETTINGS_KEY) ?? 'null');
+    return { ...DEFAULT_CAMERA_SETTINGS, ...saved };
+  } catch {
+    return DEFAULT_CAMERA_SETTINGS;
+  }
+};
+
+export const saveCameraSettings = (settings: CameraSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+/**
+ * Lists the cameras the browser can see. Labels stay empty until the user
+ * has granted camera access at least once.
+ */
+export const listVideoDevices = async (): Promise<MediaDeviceInfo[]> => {
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices.filter(device => device.kind === 'videoinput');
+};
+
+/**
+ * Opens a camera stream sized for the requested capture resolution.
+ * @param settings Which device to use and how large the photos will be.
+ */
+export const openCamera = (settings: CameraSettings): Promise<MediaStream> => {
+  const { width, height } = captureSize(settings.aspect, settings.resolution);
+  const longEdge = Math.max(width, height);
+  return navigator.mediaDevices.getUserMedia({
+    video: {
+      width: { ideal: longEdge },
+      height: { ideal: longEdge },
+      ...(settings.deviceId ? { deviceId: { exact: settings.deviceId } } : { facingMode: "user" }),
+    },
+    audio: false,
+  });
+};
+
+/**
+ * Whether a stream comes from a camera facing the user. Desktop webcams rarely
+ * report a facing mode, so anything not clearly rear-facing counts as front.
+ */
+export const isFrontFacing = (stream: MediaStream): boolean => {
+  const track = stream.getVideoTracks()[0];
+  if (!track) return true;
+  const { facingMode } = track.getSettings();
+  if (facingMode) return facingMode === 'user';
+  return !/back|rear|environment/i.test(track.label);
+};
+
+// Pixel size of anything a photo can be cropped from
+const sourceSize = (source: HTMLVideoElement | HTMLImageElement | ImageBitmap) =>
+  source instanceof HTMLVideoElement ? { width: source.videoWidth, height: source.videoHeight }
+  : source instanceof HTMLImageElement ? { width: source.naturalWidth, height: source.naturalHeight }
+  : { width: source.width, height: source.height };
+
+/**
+ * Copies the centre of the current video frame, or of an uploaded image, into
+ * a new canvas, cropped to the requested size's shape.
+ * @param source The live viewfinder or a decoded image.
+ * @param width Output width in pixels.
+ * @param height Output height in pixels.
+ */
+export const captureFrame = (source: HTMLVideoElement | HTMLImageElement | ImageBitmap, width: number, height: number): HTMLCanvasElement => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not available');
+
+  const { width: fullWidth, height: fullHeight } = sourceSize(source);
+  const sourceRatio = fullWidth / fullHeight;
+  const targetRatio = width / height;
+  let sourceWidth, sourceHeight, sourceX, sourceY;
+
+  if (sourceRatio > targetRatio) {
+    sourceHeight = fullHeight;
+    sourceWidth = sourceHeight * targetRatio;
+    sourceX = (fullWidth - sourceWidth) / 2;
+    sourceY = 0;
+  } else {
+    sourceWidth = fullWidth;
+    sourceHeight = sourceWidth / targetRatio;
+    sourceX = 0;
+    sourceY = (fullHeight - sourceHeight) / 2;
+  }
+
+  // Pixels are stored true-orientation; selfie mirroring is a display flag on the photo
+  ctx.drawImage(source, sourceX, sourceY, sourceWidth, sourceHeight, 0, 0, width, height);
+  return canvas;
+};
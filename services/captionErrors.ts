@@ -0,0 +1,53 @@
+import { CaptionErrorKind } from '../types';
+
+export const CAPTION_ERROR_KINDS: CaptionErrorKind[] = ['rate_limited', 'auth', 'missing_key', 'timeout', 'network', 'too_large', 'cancelled', 'unknown'];
+
+export class CaptionError extends Error {
+  kind: CaptionErrorKind;
+
+  constructor(kind: CaptionErrorKind, message: string) {
+    super(message);
+    this.name = 'CaptionError';
+    this.kind = kind;
+  }
+}
+
+/**
+ * Maps an HTTP status from a caption backend to the kind of failure it represents.
+ */
+export const captionErrorFromStatus = (status: number, message: string): CaptionError => {
+  if (status === 429) return new CaptionError('rate_limited', message);
+  if (status === 401 || status === 403) return new CaptionError('auth', message);
+  if (status === 408 || status === 504) return new CaptionError('timeout', message);
+  if (status === 413) return new CaptionError('too_large', message);
+  return new CaptionError('unknown', message);
+};
+
+/**
+ * Normalizes anything a provider threw into a CaptionError.
+ */
+export const toCaptionError = (error: unknown): CaptionError => {
+  if (error instanceof CaptionError) return error;
+  if (error instanceof DOMException && error.name === 'AbortError') {
+    return new CaptionError('cancelled', 'Caption request was cancelled');
+  }
+  // fetch() rejects with a TypeError when the server can't be reached at all
+  if (error instanceof TypeError) return new CaptionError('network', error.message);
+  return new CaptionError('unknown', error instanceof Error ? error.message : String(error));
+};
+
+const DESCRIPTIONS: Record<CaptionErrorKind, string> = {
+  rate_limited: 'too many requests',
+  auth: 'API key rejected',
+  missing_key: 'no API key set',
+  timeout: 'took too long',
+  network: 'offline',
+  too_large: 'photo too large',
+  cancelled: 'cancelled',
+  unknown: 'something went wrong',
+};
+
+/**
+ * Short, user-facing reason for a failed caption.
+ */
+export const describeCaptionError = (kind: CaptionErrorKind): string => DESCRIPTIONS[kind];
@@ -0,0 +1,122 @@
+import { PhotoData } from '../types';
+
+export interface CaptionLanguage {
+  code: string; // BCP 47, sent to the model as is
+  label: string; // In its own language, so people can find theirs
+}
+
+export const CAPTION_LANGUAGES: CaptionLanguage[] = [
+  { code: 'en-US', label: 'English' },
+  { code: 'es-ES', label: 'Español' },
+  { code: 'fr-FR', label: 'Français' },
+  { code: 'de-DE', label: 'Deutsch' },
+  { code: 'it-IT', label: 'Italiano' },
+  { code: 'pt-BR', label: 'Português' },
+  { code: 'nl-NL', label: 'Nederlands' },
+  { code: 'pl-PL', label: 'Polski' },
+  { code: 'ru-RU', label: 'Русский' },
+  { code: 'tr-TR', label: 'Türkçe' },
+  { code: 'ar', label: 'العربية' },
+  { code: 'he-IL', label: 'עברית' },
+  { code: 'fa-IR', label: 'فارسی' },
+  { code: 'hi-IN', label: 'हिन्दी' },
+  { code: 'th-TH', label: 'ไทย' },
+  { code: 'vi-VN', label: 'Tiếng Việt' },
+  { code: 'id-ID', label: 'Bahasa Indonesia' },
+  { code: 'zh-CN', label: '简体中文' },
+  { code: 'zh-TW', label: '繁體中文' },
+  { code: 'ja-JP', label: '日本語' },
+  { code: 'ko-KR', label: '한국어' },
+];
+
+// Key for a caption whose language was never recorded (photos from before languages existed)
+export const UNKNOWN_LANGUAGE = 'und';
+
+const RTL_LANGUAGES = ['ar', 'he', 'fa', 'ur', 'ps', 'yi', 'dv', 'ug', 'ckb'];
+const CJK_LANGUAGES = ['zh', 'ja', 'ko'];
+
+const primarySubtag = (code: string) => code.split('-')[0].toLowerCase();
+
+/**
+ * The language new captions are written in: the wall's choice, else the browser's.
+ */
+export const effectiveLanguage = (wallLanguage?: string): string =>
+  wallLanguage || navigator.language || 'en-US';
+
+/**
+ * Short name for a language, e.g. "Français"; falls back to the code itself.
+ */
+export const languageLabel = (code: string): string => {
+  if (code === UNKNOWN_LANGUAGE) return 'Original';
+  const exact = CAPTION_LANGUAGES.find(language => language.code === code);
+  if (exact) return exact.label;
+  const sameLanguage = CAPTION_LANGUAGES.find(language => primarySubtag(language.code) === primarySubtag(code));
+  return sameLanguage?.label ?? code;
+};
+
+// Two-letter badge for the card, e.g. "FR"
+export const languageBadge = (code: string): string =>
+  code === UNKNOWN_LANGUAGE ? '…' : primarySubtag(code).toUpperCase();
+
+export const isRightToLeft = (code?: string): boolean => !!code && RTL_LANGUAGES.includes(primarySubtag(code));
+
+// Chinese, Japanese and Korean have no spaces to break lines at, and need their own fonts
+export const isCjk = (code?: string): boolean => !!code && CJK_LANGUAGES.includes(primarySubtag(code));
+
+// Handwriting for scripts Gloria Hallelujah lacks, matching the caption styles in index.html
+const SCRIPT_FONTS: Record<string, string> = {
+  ar: '"Aref Ruqaa"',
+  fa: '"Aref Ruqaa"',
+  ur: '"Aref Ruqaa"',
+  he: '"Amatic SC"',
+  ja: 'Yomogi',
+  zh: '"Ma Shan Zheng"',
+  ko: '"Nanum Pen Script"',
+};
+
+/**
+ * CSS font family for handwriting in a language, for drawing captions on a canvas.
+ */
+export const handwrittenFont = (code?: string): string => {
+  const script = code && SCRIPT_FONTS[primarySubtag(code)];
+  return script ? `"Gloria Hallelujah", ${script}, cursive` : '"Gloria Hallelujah", cursive';
+};
+
+/**
+ * Every language a photo has a caption in, the shown one first.
+ */
+export const captionLanguages = (photo: PhotoData): string[] => [
+  photo.captionLanguage ?? UNKNOWN_LANGUAGE,
+  ...Object.keys(photo.translations ?? {}),
+];
+
+/**
+ * Swaps the shown caption for one of its translations, keeping the current one
+ * among the translations so it can be toggled back.
+ * @returns The updates to apply, or null if the photo has no caption in that language.
+ */
+export const showCaptionIn = (photo: PhotoData, code: string): Partial<PhotoData> | null => {
+  const current = photo.captionLanguage ?? UNKNOWN_LANGUAGE;
+  if (code === current) return null;
+  const { [code]: caption, ...others } = photo.translations ?? {};
+  if (caption === undefined) return null;
+  return {
+    caption,
+    captionLanguage: code,
+    translations: photo.caption ? { ...others, [current]: photo.caption } : others,
+  };
+};
+
+/**
+ * Adds a freshly translated caption and shows it.
+ */
+export const addTranslation = (photo: PhotoData, code: string, text: string): Partial<PhotoData> =>
+  showCaptionIn({ ...photo, translations: { ...photo.translations, [code]: text } }, code) ?? { caption: text };
+
+/**
+ * The next language to show when cycling through a photo's captions.
+ */
+export const nextCaptionLanguage = (photo: PhotoData): string | null => {
+  const languages = captionLanguages(photo);
+  return languages.length > 1 ? languages[1] : null;
+};
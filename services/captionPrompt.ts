@@ -0,0 +1,47 @@
+import { CaptionStyleId } from '../types';
+import { getCaptionStyle } from './captionStyles';
+import { MAX_TAG_OBJECTS } from './captionTags';
+
+// Who to write as and how long
+const captionRules = (style: CaptionStyleId, language: string): string => {
+  const { instructions, maxWords } = getCaptionStyle(style);
+  return `
+      ${instructions}
+      Analyze this photo before writing.
+      Use the language code: ${language}.
+      Keep it under ${maxWords} words.
+      Do not use hashtags.
+      Do not use quotes.`;
+};
+
+/**
+ * Builds the instruction sent alongside a photo to any model-backed captioner.
+ * It asks for a JSON reply that also describes the photo for search; parse the
+ * reply with parseCaptionResponse.
+ * @param style The caption voice to write in.
+ * @param language A BCP 47 language code for the caption; defaults to the browser language.
+ */
+export const buildTaggedCaptionPrompt = (style: CaptionStyleId, language: string = navigator.language || 'en-US'): string => `${captionRules(style, language)}
+      Reply with JSON only, shaped like:
+      {"caption": "the handwritten-style note", "tags": {"peopleCount": 2, "setting": "beach", "mood": "joyful", "objects": ["surfboard", "sunset"]}}
+      Write the tags in English, lowercase, one or two words each, with at most ${MAX_TAG_OBJECTS} objects.
+    `;
+
+/**
+ * Asks a model to translate a caption it (or someone) wrote, keeping its voice.
+ * @param text The caption to translate.
+ * @param language A BCP 47 language code to translate into.
+ */
+export const buildTranslationPrompt = (text: string, language: string): string => `
+      Translate this handwritten note from a photo into the language code: ${language}.
+      Keep its tone, its line breaks and roughly its length.
+      Reply with the translation only. Do not add quotes or explanations.
+
+      ${text}
+    `;
+
+/**
+ * Strips the data URL header from a base64 image, leaving only the payload.
+ */
+export const stripDataUrlHeader = (base64Image: string): string =>
+  base64Image.replace(/^data:image\/(png|jpg|jpeg|webp);base64,/, '');
@@ -0,0 +1,183 @@
+import { CaptionOutput, CaptionProvider, CaptionResult, CaptionStyleId, CaptionErrorKind } from '../types';
+import { CAPTION_ERROR_KINDS, CaptionError, captionErrorFromStatus, toCaptionError } from './captionErrors';
+import { sanitizeTags } from './captionTags';
+import { isRecord } from './guards';
+
+// Served next to the app by the dev, preview and standalone servers (server/captionEndpoint.ts)
+export const CAPTION_ENDPOINT = '/api/caption';
+export const TRANSLATE_ENDPOINT = '/api/translate';
+
+const isErrorKind = (value: unknown): value is CaptionErrorKind => CAPTION_ERROR_KINDS.some(kind => kind === value);
+
+// The endpoint names the failure itself; fall back to the status for anything in between (proxies...)
+const endpointError = (response: Response, data: unknown): CaptionError => {
+  const reply = isRecord(data) ? data : {};
+  const message = typeof reply.message === 'string' && reply.message ? reply.message : `Caption endpoint responded with ${response.status}`;
+  return isErrorKind(reply.error) ? new CaptionError(reply.error, message) : captionErrorFromStatus(response.status, message);
+};
+
+const postJson = async (url: string, body: unknown, signal?: AbortSignal): Promise<unknown> => {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    signal,
+    body: JSON.stringify(body),
+  });
+  const data = await response.json().catch(() => null);
+  if (!response.ok) throw endpointError(response, data);
+  return data;
+};
+
+/**
+ * Asks the app's own caption endpoint, which holds the model's API key and
+ * picks the model (CAPTION_PROVIDER on the server), so no key ever reaches the page.
+ */
+export const captionProvider: CaptionProvider = {
+  id: 'endpoint',
+  generateCaption: async (base64Image: string, style: CaptionStyleId, signal?: AbortSignal, language = navigator.language || 'en-US'): Promise<CaptionOutput> => {
+    const data = await postJson(CAPTION_ENDPOINT, { image: base64Image, style, language }, signal);
+    if (!isRecord(data) || typeof data.caption !== 'string') {
+      throw new CaptionError('unknown', 'Caption endpoint returned no caption');
+    }
+    return { caption: data.caption, tags: sanitizeTags(data.tags) };
+  },
+};
+
+const translateOnEndpoint = async (text: string, language: string, signal?: AbortSignal): Promise<string> => {
+  const data = await postJson(TRANSLATE_ENDPOINT, { text, language }, signal);
+  if (!isRecord(data) || typeof data.text !== 'string' || !data.text.trim()) {
+    throw new CaptionError('unknown', 'Caption endpoint returned no translation');
+  }
+  return data.text.trim();
+};
+
+export interface CaptionRequestOptions {
+  /** BCP 47 code to write in; the browser's language when missing */
+  language?: string;
+  /** Cancels the request, including any pending retries */
+  signal?: AbortSignal;
+  /** Per-attempt time limit */
+  timeoutMs?: number;
+  /** Extra attempts after the first one fails with a transient error */
+  retries?: number;
+}
+
+const DEFAULT_TIMEOUT_MS = 20000;
+const DEFAULT_RETRIES = 2;
+const BACKOFF_BASE_MS = 1000;
+
+// Failures worth trying again; bad keys and cancellations won't fix themselves
+const RETRYABLE: CaptionErrorKind[] = ['rate_limited', 'timeout', 'network', 'unknown'];
+
+const cancelled = () => new CaptionError('cancelled', 'Caption request was cancelled');
+
+const wait = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(cancelled());
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(cancelled());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+// Runs one backend call, giving up at the time limit or when the caller cancels.
+// The race also covers providers that ignore their abort signal.
+const attemptOnce = <T>(run: (signal: AbortSignal) => Promise<T>, timeoutMs: number, signal?: AbortSignal): Promise<T> => {
+  if (signal?.aborted) return Promise.reject(cancelled());
+
+  const controller = new AbortController();
+  return new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      controller.abort();
+      reject(new CaptionError('timeout', `No reply after ${timeoutMs}ms`));
+    }, timeoutMs);
+    const onAbort = () => {
+      controller.abort();
+      reject(cancelled());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    run(controller.signal)
+      .then(resolve, reject)
+      .finally(() => {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+      });
+  });
+};
+
+type Attempted<T> = { status: 'success'; value: T } | { status: 'error'; error: CaptionErrorKind; message: string };
+
+// Retries transient failures with exponential backoff; never throws
+const withRetries = async <T>(
+  what: string,
+  run: (signal: AbortSignal) => Promise<T>,
+  { signal, timeoutMs = DEFAULT_TIMEOUT_MS, retries = DEFAULT_RETRIES }: CaptionRequestOptions
+): Promise<Attempted<T>> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return { status: 'success', value: await attemptOnce(run, timeoutMs, signal) };
+    } catch (err) {
+      const error = signal?.aborted ? cancelled() : toCaptionError(err);
+      if (error.kind !== 'cancelled') {
+        console.error(`${what} attempt ${attempt + 1} failed:`, error);
+      }
+      if (!RETRYABLE.includes(error.kind) || attempt >= retries) {
+        return { status: 'error', error: error.kind, message: error.message };
+      }
+
+      // Back off harder when the backend asked us to slow down
+      const base = error.kind === 'rate_limited' ? BACKOFF_BASE_MS * 3 : BACKOFF_BASE_MS;
+      try {
+        await wait(base * 2 ** attempt + Math.random() * 250, signal);
+      } catch {
+        return { status: 'error', error: 'cancelled', message: 'Caption request was cancelled' };
+      }
+    }
+  }
+};
+
+/**
+ * Asks the caption endpoint for a caption and tags, retrying transient failures with
+ * exponential backoff. Never throws: failures come back as a typed result.
+ * @param base64Image The photo as a base64 data URL.
+ * @param style The caption voice to write in.
+ * @param options Language, cancellation, timeout and retry settings.
+ */
+export const requestCaption = async (
+  base64Image: string,
+  style: CaptionStyleId,
+  options: CaptionRequestOptions = {}
+): Promise<CaptionResult> => {
+  const result = await withRetries(
+    'Caption',
+    (signal) => captionProvider.generateCaption(base64Image, style, signal, options.language),
+    options
+  );
+  if (result.status === 'error') return result;
+  return { status: 'success', caption: result.value.caption, tags: result.value.tags };
+};
+
+export type TranslationResult =
+  | { status: 'success'; text: string }
+  | { status: 'error'; error: CaptionErrorKind; message: string };
+
+/**
+ * Translates a caption through the endpoint, keeping its voice. Retries like
+ * requestCaption and never throws.
+ * @param text The caption as shown.
+ * @param language The BCP 47 code to translate into.
+ */
+export const requestTranslation = async (
+  text: string,
+  language: string,
+  options: CaptionRequestOptions = {}
+): Promise<TranslationResult> => {
+  const result = await withRetries('Translation', (signal) => translateOnEndpoint(text, language, signal), options);
+  return result.status === 'success' ? { status: 'success', text: result.value } : result;
+};
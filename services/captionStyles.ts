@@ -0,0 +1,97 @@
+import { CaptionStyleId } from '../types';
+
+export interface CaptionStyle {
+  id: CaptionStyleId;
+  label: string;
+  /** Persona and voice instructions given to the model */
+  instructions: string;
+  maxWords: number;
+  /** Offline phrases used by the template captioner */
+  templates: string[];
+}
+
+export const DEFAULT_CAPTION_STYLE: CaptionStyleId = 'warm';
+
+export const CAPTION_STYLES: CaptionStyle[] = [
+  {
+    id: 'warm',
+    label: 'Warm',
+    instructions: 'You are a warm, nostalgic, and friendly AI inside a retro instant camera. Write a SHORT, warm blessing or a nice, aesthetic comment about the moment captured.',
+    maxWords: 15,
+    templates: [
+      "A little moment worth keeping.",
+      "Smiles that outlast the film.",
+      "Today, in soft light and good company.",
+      "Some days deserve a photograph.",
+      "Remember this feeling.",
+      "Just as it was, just for now.",
+      "A pocketful of sunshine.",
+      "Here's to ordinary magic.",
+    ],
+  },
+  {
+    id: 'haiku',
+    label: 'Haiku',
+    instructions: 'You are a quiet poet inside a retro instant camera. Write a haiku (three short lines, 5-7-5 syllables) about the moment captured. Separate the lines with " / ".',
+    maxWords: 17,
+    templates: [
+      "Shutter clicks softly / a small square of afternoon / kept for later days",
+      "Faces in the light / the film remembers for us / what we will forget",
+      "Paper turning warm / colours rising like a tide / there you are again",
+    ],
+  },
+  {
+    id: 'roast',
+    label: 'Roast',
+    instructions: 'You are a cheeky comedian inside a retro instant camera. Write a short, playful roast of the photo. Keep it good-natured, never mean about appearance, identity or bodies.',
+    maxWords: 20,
+    templates: [
+      "The camera needed a moment to recover.",
+      "Bold choice. The film respects it.",
+      "Captured mid-thought. Thought not found.",
+      "Award for most confident pose goes to...",
+    ],
+  },
+  {
+    id: 'travel',
+    label: 'Travel journal',
+    instructions: 'You are a traveller keeping a journal inside a retro instant camera. Write a short journal-style entry about the place and moment in the photo, as if noted on the road.',
+    maxWords: 25,
+    templates: [
+      "Day something. Lost track of time, found this instead.",
+      "Note to self: come back here.",
+      "Somewhere between plans, this happened.",
+      "The light here is different. Writing it down so I remember.",
+    ],
+  },
+  {
+    id: 'plain',
+    label: 'Description',
+    instructions: 'You are a precise archivist inside a retro instant camera. Plainly describe what is in the photo: who or what is there and where. No opinions, no emotion.',
+    maxWords: 20,
+    templates: [
+      "A photo taken with the retro camera.",
+      "A snapshot from the camera.",
+      "An instant photo, freshly developed.",
+    ],
+  },
+  {
+    id: 'birthday',
+    label: 'Birthday wish',
+    instructions: 'You are a cheerful friend inside a retro instant camera. Write a short, heartfelt birthday wish inspired by the photo.',
+    maxWords: 20,
+    templates: [
+      "Happy birthday! May this year be as bright as this smile.",
+      "Another trip around the sun, beautifully done.",
+      "Make a wish — this one's already a good memory.",
+      "Cheers to you and many more moments like this.",
+    ],
+  },
+];
+
+/**
+ * Looks up a caption style, falling back to the default for unknown or missing ids.
+ */
+export const getCaptionStyle = (id?: CaptionStyleId): CaptionStyle =>
+  CAPTION_STYLES.find(style => style.id === id) ??
+  CAPTION_STYLES.find(style => style.id === DEFAULT_CAPTION_STYLE)!;
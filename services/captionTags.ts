@@ -0,0 +1,77 @@
+import { CaptionOutput, PhotoTags } from '../types';
+import { CaptionError } from './captionErrors';
+import { isRecord } from './guards';
+
+export const MAX_TAG_OBJECTS = 8;
+const MAX_TAG_LENGTH = 40;
+const MAX_PEOPLE = 100; // Anything above this is a model glitch, not a crowd count
+
+const cleanTag = (value: unknown): string | null => {
+  if (typeof value !== 'string') return null;
+  const tag = value.trim().toLowerCase().replace(/\s+/g, ' ').slice(0, MAX_TAG_LENGTH);
+  return tag || null;
+};
+
+/**
+ * Checks tags from a model or an archive, tidying what can be tidied.
+ * @returns Clean tags, or undefined when the value can't be read as tags at all.
+ */
+export const sanitizeTags = (raw: unknown): PhotoTags | undefined => {
+  if (!isRecord(raw)) return undefined;
+  const { peopleCount, setting, mood, objects } = raw;
+
+  const count = typeof peopleCount === 'string' ? Number(peopleCount) : peopleCount;
+  if (typeof count !== 'number' || !Number.isFinite(count) || count < 0) return undefined;
+  const cleanSetting = cleanTag(setting);
+  const cleanMood = cleanTag(mood);
+  if (!cleanSetting || !cleanMood) return undefined;
+
+  const cleanObjects = Array.isArray(objects)
+    ? [...new Set(objects.map(cleanTag).filter((tag): tag is string => tag !== null))].slice(0, MAX_TAG_OBJECTS)
+    : [];
+
+  return {
+    peopleCount: Math.min(MAX_PEOPLE, Math.round(count)),
+    setting: cleanSetting,
+    mood: cleanMood,
+    objects: cleanObjects,
+  };
+};
+
+// Models like to wrap JSON in ```json fences even when asked not to
+const stripCodeFence = (text: string): string =>
+  text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+
+/**
+ * Reads a reply to buildTaggedCaptionPrompt. A reply that isn't JSON is taken
+ * as a plain caption without tags, and tags that don't validate are dropped,
+ * so a sloppy model still produces a caption.
+ * @param text The raw model reply.
+ * @returns The caption and any valid tags; throws a CaptionError when there's no usable caption.
+ */
+export const parseCaptionResponse = (text: string): CaptionOutput => {
+  const body = stripCodeFence(text);
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(body);
+  } catch {
+    // Half-written JSON is no good as a caption either
+    if (!body || body.startsWith('{') || body.startsWith('[')) {
+      throw new CaptionError('unknown', 'Caption reply was malformed JSON');
+    }
+    return { caption: body };
+  }
+
+  const reply = isRecord(parsed) ? parsed : {};
+  const caption = typeof reply.caption === 'string' ? reply.caption.trim() : '';
+  if (!caption) {
+    throw new CaptionError('unknown', 'Caption reply had no caption');
+  }
+  return { caption, tags: sanitizeTags(reply.tags) };
+};
+
+/**
+ * Every word a photo can be found by: its tags, flattened.
+ */
+export const tagTerms = (tags?: PhotoTags): string[] =>
+  tags ? [tags.setting, tags.mood, ...tags.objects] : [];
@@ -0,0 +1,23 @@
+import { CaptureMode, SelfTimer } from '../types';
+
+export const CAPTURE_MODES: { id: CaptureMode; label: string }[] = [
+  { id: 'single', label: 'Single' },
+  { id: 'burst', label: 'Burst' },
+  { id: 'strip', label: 'Photo strip' },
+];
+
+export const SELF_TIMERS: { id: SelfTimer; label: string; seconds: number }[] = [
+  { id: 'off', label: 'No timer', seconds: 0 },
+  { id: '3s', label: '3s', seconds: 3 },
+  { id: '10s', label: '10s', seconds: 10 },
+];
+
+export const BURST_COUNT = 4;
+export const BURST_INTERVAL_MS = 350;
+export const STRIP_INTERVAL_MS = 1500; // Time to strike a new pose between strip frames
+
+// How many photos can wait in the camera slot before the shutter locks
+export const MAX_STAGED_PHOTOS = 8;
+
+export const timerSeconds = (timer: SelfTimer): number =>
+  (SELF_TIMERS.find(t => t.id === timer) ?? SELF_TIMERS[0]).seconds;
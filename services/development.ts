@@ -0,0 +1,75 @@
+import { DevelopSpeed, Development, PhotoData } from '../types';
+
+export const DEVELOP_SPEEDS: { id: DevelopSpeed; label: string; durationMs: number }[] = [
+  { id: 'instant', label: 'Instant', durationMs: 0 },
+  { id: 'quick', label: 'Quick', durationMs: 6000 },
+  { id: 'instax', label: 'Instax (90s)', durationMs: 90_000 },
+  { id: 'polaroid', label: 'Polaroid (10 min)', durationMs: 600_000 },
+];
+
+// Photos saved before development was configurable took about this long
+const LEGACY_DURATION_MS = 3500;
+
+// Shaking only counts when the photo moves at least this fast (px/s)
+export const SHAKE_MIN_SPEED = 800;
+// Pixels of vigorous shaking that develop a photo completely
+const SHAKE_DISTANCE_FOR_FULL = 6000;
+
+export const developDuration = (speed: DevelopSpeed): number =>
+  (DEVELOP_SPEEDS.find(s => s.id === speed) ?? DEVELOP_SPEEDS[1]).durationMs;
+
+/**
+ * A photo's development timing, filling in what photos from before it was stored would have had.
+ */
+export const photoDevelopment = (photo: PhotoData): Development =>
+  photo.development ?? { startedAt: photo.timestamp, durationMs: LEGACY_DURATION_MS };
+
+/**
+ * How far a photo has developed, from 0 (blank) to 1 (finished), based on
+ * the real time since it came out of the camera, so a reload picks up where it was.
+ * @param now The current time.
+ * @param extraShakenMs Shaking not yet saved on the photo, e.g. during a drag.
+ */
+export const developProgress = (photo: PhotoData, now: number, extraShakenMs: number = 0): number => {
+  if (!photo.isDeveloping) return 1;
+  const { startedAt, durationMs, shakenMs = 0 } = photoDevelopment(photo);
+  if (durationMs <= 0) return 1;
+  return Math.min(1, Math.max(0, (now - startedAt + shakenMs + extraShakenMs) / durationMs));
+};
+
+/**
+ * Development time gained by shaking a photo across the given distance.
+ * Shaking can make up most of the wait, so even a slow film can be hurried along.
+ * @param distance Pixels travelled at shaking speed.
+ */
+export const shakeGain = (photo: PhotoData, distance: number): number =>
+  (distance / SHAKE_DISTANCE_FOR_FULL) * photoDevelopment(photo).durationMs;
+
+const mix = (from: number, to: number, t: number) => from + (to - from) * Math.min(1, Math.max(0, t));
+
+/**
+ * What a developing photo looks like at a given point:
+ * - blank: a milky grey-blue sheet with the image barely there
+ * - colour shift: the image surfaces with a cold cyan cast and little contrast
+ * - full image: colours warm up and settle into the finished photo
+ * @param progress From developProgress.
+ * @returns Styles for the photo and for the chemical layer over it.
+ */
+export const developLook = (progress: number): { imageFilter: string, imageOpacity: number, veilOpacity: number } => {
+  if (progress >= 1) return { imageFilter: 'none', imageOpacity: 1, veilOpacity: 0 };
+
+  const surfacing = progress / 0.2; // Blank
+  const shifting = (progress - 0.2) / 0.4; // Colour shift
+  const settling = (progress - 0.6) / 0.4; // Full image
+
+  const saturate = progress < 0.6 ? mix(0, 0.6, shifting) : mix(0.6, 1, settling);
+  const contrast = progress < 0.6 ? mix(0.4, 0.7, shifting) : mix(0.7, 1, settling);
+  const hue = progress < 0.6 ? mix(0, -25, shifting) : mix(-25, 0, settling); // Towards cyan, then back
+  const brightness = mix(1.6, 1, progress);
+
+  return {
+    imageFilter: `brightness(${brightness.toFixed(2)}) contrast(${contrast.toFixed(2)}) saturate(${saturate.toFixed(2)}) hue-rotate(${Math.round(hue)}deg)`,
+    imageOpacity: mix(0.1, 1, surfacing),
+    veilOpacity: progress < 0.6 ? mix(0.9, 0.35, progress / 0.6) : mix(0.35, 0, settling),
+  };
+};
@@ -0,0 +1,103 @@
+// Minimal EXIF reader: just enough of a JPEG's APP1 segment to find when the
+// photo was taken. Orientation is left to the browser's image decoder.
+
+const TAG_DATE_TIME = 0x0132;
+const TAG_EXIF_IFD = 0x8769;
+const TAG_DATE_TIME_ORIGINAL = 0x9003;
+const TAG_DATE_TIME_DIGITIZED = 0x9004;
+
+// EXIF data lives near the start of the file; no need to read a whole photo
+const HEADER_BYTES = 256 * 1024;
+
+interface TiffReader {
+  view: DataView;
+  start: number; // Offset of the TIFF header; IFD offsets are relative to it
+  little: boolean;
+}
+
+const findTiffHeader = (view: DataView): number | null => {
+  if (view.byteLength < 4 || view.getUint16(0) !== 0xFFD8) return null; // Not a JPEG
+  let offset = 2;
+  while (offset + 4 <= view.byteLength) {
+    const marker = view.getUint16(offset);
+    if (marker === 0xFFDA) break; // Image data starts; no metadata after this
+    const length = view.getUint16(offset + 2);
+    if (marker === 0xFFE1 && offset + 10 <= view.byteLength && view.getUint32(offset + 4) === 0x45786966) { // "Exif"
+      return offset + 10;
+    }
+    offset += 2 + length;
+  }
+  return null;
+};
+
+// Reads the tags of one IFD as offsets to their entries
+const readIfd = ({ view, start, little }: TiffReader, ifdOffset: number): Map<number, number> => {
+  const entries = new Map<number, number>();
+  const base = start + ifdOffset;
+  if (base + 2 > view.byteLength) return entries;
+  const count = view.getUint16(base, little);
+  for (let i = 0; i < count; i++) {
+    const entry = base + 2 + i * 12;
+    if (entry + 12 > view.byteLength) break;
+    entries.set(view.getUint16(entry, little), entry);
+  }
+  return entries;
+};
+
+const readAscii = ({ view, start, little }: TiffReader, entry: number): string => {
+  const count = view.getUint32(entry + 4, little);
+  const offset = count <= 4 ? entry + 8 : start + view.getUint32(entry + 8, little);
+  let text = '';
+  for (let i = 0; i < count && offset + i < view.byteLength; i++) {
+    const code = view.getUint8(offset + i);
+    if (code === 0) break;
+    text += String.fromCharCode(code);
+  }
+  return text;
+};
+
+// EXIF dates look like "2024:07:14 18:32:05" in the camera's local time
+const parseExifDate = (text: string): Date | null => {
+  const match = /^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})/.exec(text);
+  if (!match) return null;
+  const [, year, month, day, hours, minutes, seconds] = match.map(Number);
+  const date = new Date(year, month - 1, day, hours, minutes, seconds);
+  return year > 1900 && !isNaN(date.getTime()) ? date : null;
+};
+
+/**
+ * Finds when a photo was taken from its EXIF metadata.
+ * @param file A JPEG picked or dropped by the user.
+ * @returns The original capture time, or null when the file doesn't record one.
+ */
+export const readCaptureDate = async (file: Blob): Promise<Date | null> => {
+  try {
+    const view = new DataView(await file.slice(0, HEADER_BYTES).arrayBuffer());
+    const start = findTiffHeader(view);
+    if (start === null) return null;
+
+    const reader: TiffReader = { view, start, little: view.getUint16(start) === 0x4949 };
+    const ifd0 = readIfd(reader, view.getUint32(start + 4, reader.little));
+
+    const candidates: number[] = [];
+    const exifPointer = ifd0.get(TAG_EXIF_IFD);
+    if (exifPointer !== undefined) {
+      const exifIfd = readIfd(reader, view.getUint32(exifPointer + 8, reader.little));
+      [TAG_DATE_TIME_ORIGINAL, TAG_DATE_TIME_DIGITIZED].forEach(tag => {
+        const entry = exifIfd.get(tag);
+        if (entry !== undefined) candidates.push(entry);
+      });
+    }
+    const modified = ifd0.get(TAG_DATE_TIME);
+    if (modified !== undefined) candidates.push(modified);
+
+    for (const entry of candidates) {
+      const date = parseExifDate(readAscii(reader, entry));
+      if (date) return date;
+    }
+    return null;
+  } catch {
+    // Truncated or malformed metadata is common; treat it as missing
+    return null;
+  }
+};
@@ -0,0 +1,174 @@
+import { PhotoData } from '../types';
+import { createZip, ZipEntry } from './zipWriter';
+import { createPdf, PdfPage, A4_WIDTH, A4_HEIGHT } from './pdfWriter';
+import { renderPolaroid, polaroidSize } from './polaroidRenderer';
+import { createArchiveBlob } from './wallArchive';
+import { byStackOrder } from './wallLayout';
+
+export type ExportFormat = 'zip' | 'contactSheet' | 'pdf' | 'archive';
+
+const WALL_BACKGROUND = '#fdf6e3'; // Matches the retro-bg theme colour
+const CONTACT_SHEET_MARGIN = 48;
+const MAX_CANVAS_SIDE = 8192; // Stay under browser canvas limits for large walls
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality?: number): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Could not encode image'))), type, quality);
+  });
+
+const blobBytes = async (blob: Blob): Promise<Uint8Array> => new Uint8Array(await blob.arrayBuffer());
+
+// Today's date for download names, e.g. bao-retro-2024-05-01.zip
+export const fileStamp = () => new Date().toISOString().slice(0, 10);
+
+/**
+ * Saves a generated file through the browser's download prompt.
+ */
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.download = filename;
+  link.href = url;
+  link.click();
+  // Give the download a moment to start before releasing the data
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+/**
+ * Packs each photo as a framed PNG plus a manifest.json of captions and dates.
+ * @param photos The photos to export, in the order they should be numbered.
+ */
+export const exportZip = async (photos: PhotoData[]): Promise<Blob> => {
+  const entries: ZipEntry[] = [];
+  const manifest = [];
+
+  for (const [index, photo] of photos.entries()) {
+    const file = `photo-${String(index + 1).padStart(3, '0')}.png`;
+    const canvas = await renderPolaroid(photo);
+    entries.push({ name: file, data: await blobBytes(await canvasToBlob(canvas, 'image/png')), date: new Date(photo.timestamp) });
+    manifest.push({
+      file,
+      id: photo.id,
+      caption: photo.caption,
+      dateString: photo.dateString,
+      takenAt: new Date(photo.timestamp).toISOString(),
+      kind: photo.kind ?? 'single',
+      captionStyle: photo.captionStyle,
+      filmStock: photo.filmStock,
+      tags: photo.tags,
+    });
+  }
+
+  const manifestJson = JSON.stringify({ exportedAt: new Date().toISOString(), photos: manifest }, null, 2);
+  entries.push({ name: 'manifest.json', data: new TextEncoder().encode(manifestJson) });
+  return createZip(entries);
+};
+
+/**
+ * Renders the photos as they are laid out on the wall into a single PNG.
+ * @param photos The photos to include; their wall positions and tilt are kept.
+ */
+export const exportContactSheet = async (photos: PhotoData[]): Promise<Blob> => {
+  const minX = Math.min(...photos.map(p => p.position.x));
+  const minY = Math.min(...photos.map(p => p.position.y));
+  const maxX = Math.max(...photos.map(p => p.position.x + polaroidSize(p).width));
+  const maxY = Math.max(...photos.map(p => p.position.y + polaroidSize(p).height));
+  const width = maxX - minX + CONTACT_SHEET_MARGIN * 2;
+  const height = maxY - minY + CONTACT_SHEET_MARGIN * 2;
+  const scale = Math.min(2, MAX_CANVAS_SIDE / Math.max(width, height));
+
+  const sheet = document.createElement('canvas');
+  sheet.width = Math.round(width * scale);
+  sheet.height = Math.round(height * scale);
+  const ctx = sheet.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not available');
+
+  ctx.scale(scale, scale);
+  ctx.fillStyle = WALL_BACKGROUND;
+  ctx.fillRect(0, 0, width, height);
+
+  // Drawn from the bottom of the stack up, so photos overlap as they do on the wall
+  for (const photo of byStackOrder(photos)) {
+    const polaroid = await renderPolaroid(photo, scale);
+    const { width: frameWidth, height: frameHeight } = polaroidSize(photo);
+    ctx.save();
+    ctx.translate(
+      photo.position.x - minX + CONTACT_SHEET_MARGIN + frameWidth / 2,
+      photo.position.y - minY + CONTACT_SHEET_MARGIN + frameHeight / 2
+    );
+    ctx.rotate((photo.rotation * Math.PI) / 180);
+    ctx.shadowColor = 'rgba(0, 0, 0, 0.2)';
+    ctx.shadowBlur = 12;
+    ctx.shadowOffsetY = 6;
+    ctx.drawImage(polaroid, -frameWidth / 2, -frameHeight / 2, frameWidth, frameHeight);
+    ctx.restore();
+  }
+
+  return canvasToBlob(sheet, 'image/png');
+};
+
+const PDF_MARGIN = 36;
+const PDF_COLUMNS = 2;
+const PDF_ROWS = 3;
+
+/**
+ * Lays the photos out as printable Polaroids, six to an A4 page.
+ * @param photos The photos to print, in page order.
+ */
+export const exportPdf = async (photos: PhotoData[]): Promise<Blob> => {
+  const cellWidth = (A4_WIDTH - PDF_MARGIN * 2) / PDF_COLUMNS;
+  const cellHeight = (A4_HEIGHT - PDF_MARGIN * 2) / PDF_ROWS;
+  const perPage = PDF_COLUMNS * PDF_ROWS;
+
+  const pages: PdfPage[] = [];
+  for (const [index, photo] of photos.entries()) {
+    if (index % perPage === 0) {
+      pages.push({ width: A4_WIDTH, height: A4_HEIGHT, images: [] });
+    }
+    const slot = index % perPage;
+    const column = slot % PDF_COLUMNS;
+    const row = Math.floor(slot / PDF_COLUMNS);
+    const { width: frameWidth, height: frameHeight } = polaroidSize(photo);
+    const fit = Math.min((cellWidth - 12) / frameWidth, (cellHeight - 12) / frameHeight);
+    const printWidth = frameWidth * fit;
+    const printHeight = frameHeight * fit;
+
+    // 3x the CSS size keeps prints sharp at roughly 300dpi
+    const canvas = await renderPolaroid(photo, 3);
+    pages[pages.length - 1].images.push({
+      jpeg: await blobBytes(await canvasToBlob(canvas, 'image/jpeg', 0.92)),
+      pixelWidth: canvas.width,
+      pixelHeight: canvas.height,
+      x: PDF_MARGIN + column * cellWidth + (cellWidth - printWidth) / 2,
+      y: PDF_MARGIN + row * cellHeight + (cellHeight - printHeight) / 2,
+      width: printWidth,
+      height: printHeight,
+    });
+  }
+
+  return createPdf(pages);
+};
+
+/**
+ * Builds the requested export and hands it to the browser as a download.
+ * @param photos The photos to export.
+ * @param format Which kind of file to produce.
+ */
+export const exportPhotos = async (photos: PhotoData[], format: ExportFormat): Promise<void> => {
+  if (photos.length === 0) return;
+
+  switch (format) {
+    case 'zip':
+      downloadBlob(await exportZip(photos), `bao-retro-${fileStamp()}.zip`);
+      break;
+    case 'contactSheet':
+      downloadBlob(await exportContactSheet(photos), `bao-retro-contact-sheet-${fileStamp()}.png`);
+      break;
+    case 'pdf':
+      downloadBlob(await exportPdf(photos), `bao-retro-${fileStamp()}.pdf`);
+      break;
+    case 'archive':
+      downloadBlob(createArchiveBlob(photos), `bao-retro-wall-${fileStamp()}.json`);
+      break;
+  }
+};
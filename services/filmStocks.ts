@@ -0,0 +1,170 @@
+import { FilmStockId } from '../types';
+
+type Rgb = [number, number, number];
+
+export interface FilmStock {
+  id: FilmStockId;
+  label: string;
+  /** Per-pixel colour response, channels in 0-255 */
+  develop?: (r: number, g: number, b: number) => Rgb;
+  /** Strength of random luminance noise, 0-1 */
+  grain: number;
+  /** Darkness at the corners, 0-1 */
+  vignette: number;
+  lightLeak?: boolean;
+}
+
+export const DEFAULT_FILM_STOCK: FilmStockId = 'polaroid';
+
+const clamp = (value: number) => (value < 0 ? 0 : value > 255 ? 255 : value);
+
+const luminance = (r: number, g: number, b: number) => 0.299 * r + 0.587 * g + 0.114 * b;
+
+// Simple S-curve around mid grey; amount > 1 adds contrast, < 1 flattens
+const contrast = (value: number, amount: number) => (value - 128) * amount + 128;
+
+const saturate = (r: number, g: number, b: number, amount: number): Rgb => {
+  const l = luminance(r, g, b);
+  return [l + (r - l) * amount, l + (g - l) * amount, l + (b - l) * amount];
+};
+
+export const FILM_STOCKS: FilmStock[] = [
+  {
+    id: 'none',
+    label: 'Digital',
+    grain: 0,
+    vignette: 0,
+  },
+  {
+    id: 'polaroid',
+    label: 'Faded Polaroid',
+    develop: (r, g, b) => {
+      const [sr, sg, sb] = saturate(r, g, b, 0.8);
+      // Lifted blacks, soft highlights and a warm cast
+      return [
+        contrast(sr, 0.85) * 0.9 + 30,
+        contrast(sg, 0.85) * 0.88 + 24,
+        contrast(sb, 0.85) * 0.8 + 22,
+      ];
+    },
+    grain: 0.06,
+    vignette: 0.3,
+  },
+  {
+    id: 'sepia',
+    label: 'Sepia',
+    develop: (r, g, b) => [
+      0.393 * r + 0.769 * g + 0.189 * b,
+      0.349 * r + 0.686 * g + 0.168 * b,
+      0.272 * r + 0.534 * g + 0.131 * b,
+    ],
+    grain: 0.08,
+    vignette: 0.4,
+  },
+  {
+    id: 'bw',
+    label: 'B&W',
+    develop: (r, g, b) => {
+      const l = contrast(luminance(r, g, b), 1.2);
+      return [l, l, l];
+    },
+    grain: 0.12,
+    vignette: 0.35,
+  },
+  {
+    id: 'cross',
+    label: 'Cross-processed',
+    develop: (r, g, b) => {
+      const [sr, sg, sb] = saturate(r, g, b, 1.3);
+      // Punchy reds and greens, crushed blue highlights with lifted blue shadows
+      return [contrast(sr, 1.25), contrast(sg, 1.15) + 6, sb * 0.7 + 40];
+    },
+    grain: 0.05,
+    vignette: 0.25,
+  },
+  {
+    id: 'lightLeak',
+    label: 'Light leak',
+    develop: (r, g, b) => [contrast(r, 0.9) + 18, contrast(g, 0.9) + 8, contrast(b, 0.9)],
+    grain: 0.07,
+    vignette: 0.2,
+    lightLeak: true,
+  },
+];
+
+/**
+ * Looks up a film stock, falling back to the default for unknown or missing ids.
+ */
+export const getFilmStock = (id?: FilmStockId): FilmStock =>
+  FILM_STOCKS.find(stock => stock.id === id) ??
+  FILM_STOCKS.find(stock => stock.id === DEFAULT_FILM_STOCK)!;
+
+const drawVignette = (ctx: CanvasRenderingContext2D, width: number, height: number, strength: number) => {
+  const radius = Math.hypot(width, height) / 2;
+  const gradient = ctx.createRadialGradient(width / 2, height / 2, radius * 0.45, width / 2, height / 2, radius);
+  gradient.addColorStop(0, 'rgba(0, 0, 0, 0)');
+  gradient.addColorStop(1, `rgba(0, 0, 0, ${strength})`);
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, width, height);
+};
+
+const drawLightLeak = (ctx: CanvasRenderingContext2D, width: number, height: number) => {
+  // Warm flare bleeding in from one edge, placed randomly like the real thing
+  const fromLeft = Math.random() < 0.5;
+  const x = fromLeft ? 0 : width;
+  const y = height * (0.2 + Math.random() * 0.6);
+  const gradient = ctx.createRadialGradient(x, y, 0, x, y, width * 0.9);
+  gradient.addColorStop(0, 'rgba(255, 120, 40, 0.75)');
+  gradient.addColorStop(0.4, 'rgba(255, 70, 90, 0.35)');
+  gradient.addColorStop(1, 'rgba(255, 200, 120, 0)');
+
+  ctx.globalCompositeOperation = 'screen';
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, width, height);
+  ctx.globalCompositeOperation = 'source-over';
+};
+
+/**
+ * Renders a film stock's look into the pixels already drawn on the canvas,
+ * so the saved image and any download carry the effect.
+ * @param ctx The 2D context holding the captured frame.
+ * @param width Width of the frame in pixels.
+ * @param height Height of the frame in pixels.
+ * @param stockId The film stock to develop with.
+ */
+export const applyFilmStock = (ctx: CanvasRenderingContext2D, width: number, height: number, stockId: FilmStockId) => {
+  const stock = getFilmStock(stockId);
+  // Overlays are drawn in plain canvas space regardless of how the frame was placed
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+
+  if (stock.develop || stock.grain > 0) {
+    const image = ctx.getImageData(0, 0, width, height);
+    const { data } = image;
+    const grainRange = stock.grain * 255;
+
+    for (let i = 0; i < data.length; i += 4) {
+      let [r, g, b]: Rgb = [data[i], data[i + 1], data[i + 2]];
+      if (stock.develop) {
+        [r, g, b] = stock.develop(r, g, b);
+      }
+      if (grainRange > 0) {
+        const noise = (Math.random() - 0.5) * grainRange;
+        r += noise;
+        g += noise;
+        b += noise;
+      }
+      data[i] = clamp(r);
+      data[i + 1] = clamp(g);
+      data[i + 2] = clamp(b);
+    }
+
+    ctx.putImageData(image, 0, 0);
+  }
+
+  if (stock.lightLeak) {
+    drawLightLeak(ctx, width, height);
+  }
+  if (stock.vignette > 0) {
+    drawVignette(ctx, width, height, stock.vignette);
+  }
+};
@@ -1,50 +1,108 @@
-import { GoogleGenAI } from "@google/genai";
+// Runs behind the caption endpoint (server/captionEndpoint.ts), never in the
+// browser, so the API key stays on the server.
+import { GoogleGenAI, ApiError, Type } from "@google/genai";
+import { CaptionOutput, CaptionProvider, CaptionStyleId } from "../types";
+import { buildTaggedCaptionPrompt, buildTranslationPrompt, stripDataUrlHeader } from "./captionPrompt";
+import { CaptionError, captionErrorFromStatus } from "./captionErrors";
+import { parseCaptionResponse } from "./captionTags";
 
-// Initialize the client with the API key from environment variables
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+// Structured output keeps Gemini to the caption + tags shape; the reply is still validated
+const CAPTION_RESPONSE_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    caption: { type: Type.STRING },
+    tags: {
+      type: Type.OBJECT,
+      properties: {
+        peopleCount: { type: Type.INTEGER },
+        setting: { type: Type.STRING },
+        mood: { type: Type.STRING },
+        objects: { type: Type.ARRAY, items: { type: Type.STRING } },
+      },
+      required: ['peopleCount', 'setting', 'mood', 'objects'],
+    },
+  },
+  required: ['caption', 'tags'],
+};
+
+// Gemini wants the real image type; photos without a data URL header are PNGs from the camera
+const imageMimeType = (base64Image: string): string =>
+  base64Image.match(/^data:(image\/(?:png|jpe?g|webp));base64,/)?.[1].replace('jpg', 'jpeg') ?? 'image/png';
 
 /**
- * Generates a caption for the provided image using Gemini Flash.
- * @param base64Image The base64 encoded image string (without the data:image/png;base64, prefix if possible, but the API handles cleanup usually).
- * @returns A promise that resolves to the generated text.
+ * Captions photos and tags them for search with Gemini Flash.
+ * @param apiKey The Gemini API key; without one every request fails with missing_key.
  */
-export const generatePhotoCaption = async (base64Image: string): Promise<string> => {
-  try {
-    // Clean the base64 string if it contains the header
-    const cleanBase64 = base64Image.replace(/^data:image\/(png|jpg|jpeg|webp);base64,/, '');
-
-    const language = navigator.language || 'en-US';
-
-    const prompt = `
-      You are a warm, nostalgic, and friendly AI inside a retro instant camera.
-      Analyze this photo and write a SHORT, warm blessing or a nice, aesthetic comment about the moment captured.
-      Use the language code: ${language}.
-      Keep it under 15 words.
-      Do not use hashtags.
-      Do not use quotes.
-      Just the handwritten-style note.
-    `;
-
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: {
-        parts: [
-          {
-            inlineData: {
-              mimeType: 'image/png',
-              data: cleanBase64,
+export const createGeminiCaptionProvider = (apiKey: string | undefined): CaptionProvider => {
+  let ai: GoogleGenAI | null = null;
+
+  // Create the client lazily, on the first photo
+  const getClient = (): GoogleGenAI => {
+    if (!apiKey) {
+      throw new CaptionError('missing_key', 'GEMINI_API_KEY is not set');
+    }
+    if (!ai) {
+      ai = new GoogleGenAI({ apiKey });
+    }
+    return ai;
+  };
+
+  const generateCaption = async (base64Image: string, style: CaptionStyleId, signal?: AbortSignal, language?: string): Promise<CaptionOutput> => {
+    try {
+      const response = await getClient().models.generateContent({
+        model: 'gemini-2.5-flash',
+        contents: {
+          parts: [
+            {
+              inlineData: {
+                mimeType: imageMimeType(base64Image),
+                data: stripDataUrlHeader(base64Image),
+              },
             },
-          },
-          {
-            text: prompt,
-          },
-        ],
-      },
-    });
-
-    return response.text || "A beautiful moment...";
-  } catch (error) {
-    console.error("Error generating caption:", error);
-    return "Captured in time.";
-  }
-};
\ No newline at end of file
+            {
+              text: buildTaggedCaptionPrompt(style, language),
+            },
+          ],
+        },
+        config: {
+          abortSignal: signal,
+          responseMimeType: 'application/json',
+          responseSchema: CAPTION_RESPONSE_SCHEMA,
+        },
+      });
+
+      const text = response.text?.trim();
+      if (!text) {
+        throw new CaptionError('unknown', 'Gemini returned an empty caption');
+      }
+      return parseCaptionResponse(text);
+    } catch (error) {
+      if (error instanceof ApiError) {
+        throw captionErrorFromStatus(error.status, error.message);
+      }
+      throw error;
+    }
+  };
+
+  const translateCaption = async (text: string, language: string, signal?: AbortSignal): Promise<string> => {
+    try {
+      const response = await getClient().models.generateContent({
+        model: 'gemini-2.5-flash',
+        contents: buildTranslationPrompt(text, language),
+        config: { abortSignal: signal },
+      });
+      const translation = response.text?.trim();
+      if (!translation) {
+        throw new CaptionError('unknown', 'Gemini returned an empty translation');
+      }
+      return translation;
+    } catch (error) {
+      if (error instanceof ApiError) {
+        throw captionErrorFromStatus(error.status, error.message);
+      }
+      throw error;
+    }
+  };
+
+  return { id: 'gemini', generateCaption, translateCaption };
+};
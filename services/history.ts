@@ -0,0 +1,134 @@
+import { PhotoData } from '../types';
+
+// Only the fields a change touched are kept, so undoing a move can't roll back
+// a caption that arrived in the meantime.
+export type PhotoChange =
+  | { type: 'add'; photo: PhotoData }
+  | { type: 'delete'; photo: PhotoData }
+  | { type: 'update'; id: string; before: Partial<PhotoData>; after: Partial<PhotoData> };
+
+export interface HistoryEntry {
+  label: string; // e.g. "move", shown as "Undo move"
+  changes: PhotoChange[];
+}
+
+export interface HistoryState {
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+}
+
+export const EMPTY_HISTORY: HistoryState = { past: [], future: [] };
+
+const HISTORY_LIMIT = 100;
+
+// A photo leaving the wall drops its in-flight caption request; if it comes
+// back through undo/redo, offer a retry instead of waiting forever
+const detach = (photo: PhotoData): PhotoData =>
+  photo.captionStatus === 'pending' ? { ...photo, captionStatus: 'failed', captionError: 'cancelled' } : photo;
+
+const sameValue = (a: unknown, b: unknown) =>
+  a === b || (typeof a === 'object' && typeof b === 'object' && JSON.stringify(a) === JSON.stringify(b));
+
+const copyField = <K extends keyof PhotoData>(to: Partial<PhotoData>, from: PhotoData, key: K) => {
+  to[key] = from[key];
+};
+
+/**
+ * Describes how the wall changed between two snapshots.
+ * @param previous The wall before the action.
+ * @param next The wall after the action.
+ */
+export const diffPhotos = (previous: PhotoData[], next: PhotoData[]): PhotoChange[] => {
+  const previousById = new Map(previous.map(photo => [photo.id, photo]));
+  const nextIds = new Set(next.map(photo => photo.id));
+  const changes: PhotoChange[] = [];
+
+  for (const photo of previous) {
+    if (!nextIds.has(photo.id)) changes.push({ type: 'delete', photo: detach(photo) });
+  }
+
+  for (const photo of next) {
+    const old = previousById.get(photo.id);
+    if (!old) {
+      changes.push({ type: 'add', photo });
+      continue;
+    }
+    if (old === photo) continue;
+
+    const before: Partial<PhotoData> = {};
+    const after: Partial<PhotoData> = {};
+    const keys = new Set([...Object.keys(old), ...Object.keys(photo)]) as Set<keyof PhotoData>;
+    keys.forEach(key => {
+      if (!sameValue(old[key], photo[key])) {
+        copyField(before, old, key);
+        copyField(after, photo, key);
+      }
+    });
+    if (Object.keys(after).length > 0) {
+      changes.push({ type: 'update', id: photo.id, before, after });
+    }
+  }
+
+  return changes;
+};
+
+/**
+ * Adds a step to the history, dropping anything that could have been redone.
+ */
+export const recordEntry = (history: HistoryState, entry: HistoryEntry): HistoryState => {
+  if (entry.changes.length === 0) return history;
+  return { past: [...history.past, entry].slice(-HISTORY_LIMIT), future: [] };
+};
+
+// Applies one direction of a change; returns the wall and the change as it
+// should be stored for the opposite direction.
+const applyChange = (photos: PhotoData[], change: PhotoChange, direction: 'undo' | 'redo'): [PhotoData[], PhotoChange] => {
+  const removing = (change.type === 'add') === (direction === 'undo');
+
+  if (change.type === 'add' || change.type === 'delete') {
+    if (removing) {
+      // Keep whatever the photo looks like now (e.g. a caption that arrived later)
+      const current = detach(photos.find(p => p.id === change.photo.id) ?? change.photo);
+      return [photos.filter(p => p.id !== change.photo.id), { ...change, photo: current }];
+    }
+    const restored = photos.some(p => p.id === change.photo.id) ? photos : [...photos, change.photo];
+    return [restored, change];
+  }
+
+  const fields = direction === 'undo' ? change.before : change.after;
+  return [photos.map(p => (p.id === change.id ? { ...p, ...fields } : p)), change];
+};
+
+const applyEntry = (photos: PhotoData[], entry: HistoryEntry, direction: 'undo' | 'redo'): [PhotoData[], HistoryEntry] => {
+  let result = photos;
+  const changes: PhotoChange[] = [];
+  const ordered = direction === 'undo' ? [...entry.changes].reverse() : entry.changes;
+  for (const change of ordered) {
+    const [next, stored] = applyChange(result, change, direction);
+    result = next;
+    changes.push(stored);
+  }
+  return [result, { ...entry, changes: direction === 'undo' ? changes.reverse() : changes }];
+};
+
+/**
+ * Reverts the most recent step.
+ * @returns The restored wall and the updated history, or null when there is nothing to undo.
+ */
+export const undo = (photos: PhotoData[], history: HistoryState): [PhotoData[], HistoryState] | null => {
+  const entry = history.past[history.past.length - 1];
+  if (!entry) return null;
+  const [next, stored] = applyEntry(photos, entry, 'undo');
+  return [next, { past: history.past.slice(0, -1), future: [...history.future, stored] }];
+};
+
+/**
+ * Re-applies the most recently undone step.
+ * @returns The updated wall and history, or null when there is nothing to redo.
+ */
+export const redo = (photos: PhotoData[], history: HistoryState): [PhotoData[], HistoryState] | null => {
+  const entry = history.future[history.future.length - 1];
+  if (!entry) return null;
+  const [next, stored] = applyEntry(photos, entry, 'redo');
+  return [next, { past: [...history.past, stored], future: history.future.slice(0, -1) }];
+};
@@ -0,0 +1,2 @@
+// Simple UUID generator since we assume standard env without extra packages
+export const generateId = () => Math.random().toString(36).substring(2, 15) + Math.random().toString(36).substring(2, 15);
@@ -0,0 +1,50 @@
+/**
+ * Decodes a data URL into an image element.
+ */
+export const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Could not decode photo'));
+    image.src = src;
+  });
+
+/**
+ * Mirrors an image left to right.
+ * @param dataUrl The image as a data URL.
+ * @returns The flipped image as a PNG data URL.
+ */
+export const flipImageHorizontally = async (dataUrl: string): Promise<string> => {
+  const image = await loadImage(dataUrl);
+  const canvas = document.createElement('canvas');
+  canvas.width = image.naturalWidth;
+  canvas.height = image.naturalHeight;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not available');
+
+  ctx.translate(canvas.width, 0);
+  ctx.scale(-1, 1);
+  ctx.drawImage(image, 0, 0);
+  return canvas.toDataURL('image/png');
+};
+
+/**
+ * Decodes an image file upright, applying any EXIF orientation so phone
+ * photos taken sideways come out the right way up.
+ * @param file An image picked or dropped by the user.
+ */
+export const decodeImageFile = async (file: Blob): Promise<ImageBitmap | HTMLImageElement> => {
+  if (typeof createImageBitmap === 'function') {
+    try {
+      return await createImageBitmap(file, { imageOrientation: 'from-image' });
+    } catch {
+      // Fall back to an <img>, which also honours orientation in current browsers
+    }
+  }
+  const url = URL.createObjectURL(file);
+  try {
+    return await loadImage(url);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
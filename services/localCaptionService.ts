@@ -0,0 +1,132 @@
+import { CaptionOutput, CaptionProvider, CaptionStyleId } from '../types';
+import { buildTaggedCaptionPrompt, buildTranslationPrompt } from './captionPrompt';
+import { parseCaptionResponse } from './captionTags';
+import { getCaptionStyle } from './captionStyles';
+import { CaptionError, captionErrorFromStatus } from './captionErrors';
+import { isRecord } from './guards';
+
+const DEFAULT_ENDPOINT = 'http://localhost:11434/v1'; // Ollama's OpenAI-compatible API
+const DEFAULT_MODEL = 'llava';
+
+export interface OpenAICompatibleConfig {
+  baseUrl?: string; // Defaults to a local Ollama
+  apiKey?: string; // Only if the server needs one
+  model?: string;
+}
+
+/**
+ * Captions photos through any OpenAI-compatible chat completions endpoint
+ * (Ollama, LM Studio, llama.cpp server, vLLM...) so demos can run on a local model.
+ */
+export const createOpenAICompatibleCaptionProvider = ({ baseUrl, apiKey, model }: OpenAICompatibleConfig = {}): CaptionProvider => {
+  // One chat turn; returns the reply's text
+  const complete = async (content: unknown[], maxTokens: number, signal?: AbortSignal): Promise<string> => {
+    const endpoint = (baseUrl || DEFAULT_ENDPOINT).replace(/\/+$/, '');
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (apiKey) {
+      headers.Authorization = `Bearer ${apiKey}`;
+    }
+
+    const response = await fetch(`${endpoint}/chat/completions`, {
+      method: 'POST',
+      headers,
+      signal,
+      body: JSON.stringify({
+        model: model || DEFAULT_MODEL,
+        max_tokens: maxTokens,
+        messages: [{ role: 'user', content }],
+      }),
+    });
+    if (!response.ok) {
+      throw captionErrorFromStatus(response.status, `Caption endpoint responded with ${response.status}`);
+    }
+
+    const data: unknown = await response.json().catch(() => {
+      throw new CaptionError('unknown', 'Caption endpoint returned malformed JSON');
+    });
+    // Servers differ; some answer with a list of content parts rather than text
+    const choice = isRecord(data) && Array.isArray(data.choices) ? data.choices[0] : undefined;
+    const message = isRecord(choice) ? choice.message : undefined;
+    const reply = isRecord(message) ? message.content : undefined;
+    if (typeof reply !== 'string') {
+      throw new CaptionError('unknown', 'Caption endpoint returned no text reply');
+    }
+    const text = reply.trim();
+    if (!text) {
+      throw new CaptionError('unknown', 'Caption endpoint returned an empty reply');
+    }
+    return text;
+  };
+
+  return {
+    id: 'openai',
+    generateCaption: async (base64Image: string, style: CaptionStyleId, signal?: AbortSignal, language?: string): Promise<CaptionOutput> => {
+      const text = await complete([
+        { type: 'text', text: buildTaggedCaptionPrompt(style, language) },
+        { type: 'image_url', image_url: { url: base64Image } },
+      ], 200, signal); // Room for the tags JSON as well as the caption
+      // Not every local server supports JSON mode, so plain-text replies still count
+      return parseCaptionResponse(text);
+    },
+    translateCaption: (text: string, language: string, signal?: AbortSignal) =>
+      complete([{ type: 'text', text: buildTranslationPrompt(text, language) }], 200, signal),
+  };
+};
+
+// Cheap, stable fingerprint of the image so the same shot always starts on the same caption
+const hashImage = (base64Image: string): number => {
+  let hash = 5381;
+  const step = Math.max(1, Math.floor(base64Image.length / 512));
+  for (let i = 0; i < base64Image.length; i += step) {
+    hash = ((hash << 5) + hash + base64Image.charCodeAt(i)) | 0;
+  }
+  return Math.abs(hash);
+};
+
+const rerolls = new Map<string, number>();
+
+/**
+ * Fully offline captioner. Picks a caption from the style's fixed phrases,
+ * deterministically per image; asking again for the same image steps to the next one.
+ * It can't see the photo, so it gives no tags.
+ */
+export const templateCaptionProvider: CaptionProvider = {
+  id: 'template',
+  generateCaption: async (base64Image: string, style: CaptionStyleId): Promise<CaptionOutput> => {
+    const { templates } = getCaptionStyle(style);
+    const hash = hashImage(base64Image);
+    const key = `${style}:${hash}`;
+    const attempt = rerolls.get(key) ?? 0;
+    rerolls.set(key, attempt + 1);
+    return { caption: templates[(hash + attempt) % templates.length] };
+  },
+};
+
+const MOCK_DELAY_MS = 300;
+
+// Answers after a short delay, like a real model would
+const mockReply = <T>(value: T, signal?: AbortSignal): Promise<T> =>
+  new Promise((resolve, reject) => {
+    const timer = setTimeout(() => resolve(value), MOCK_DELAY_MS);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(new CaptionError('cancelled', 'Caption request was cancelled'));
+    }, { once: true });
+  });
+
+/**
+ * Stands in for a real model when trying out the caption endpoint: no key, no
+ * network, a short delay like the real thing, and tags so search has
+ * something to match. The caption names the style and language it was asked for,
+ * and translations are the text tagged with the target language.
+ */
+export const mockCaptionProvider: CaptionProvider = {
+  id: 'mock',
+  generateCaption: (base64Image: string, style: CaptionStyleId, signal?: AbortSignal, language = 'en-US'): Promise<CaptionOutput> =>
+    mockReply({
+      caption: `A ${style} caption (${language})`,
+      tags: { peopleCount: 1, setting: 'studio', mood: 'calm', objects: ['camera'] },
+    }, signal),
+  translateCaption: (text: string, language: string, signal?: AbortSignal): Promise<string> =>
+    mockReply(`[${language}] ${text}`, signal),
+};
@@ -0,0 +1,104 @@
+// Minimal PDF writer that lays JPEG images out on pages. Enough for printing
+// Polaroids without pulling a full PDF library into the bundle.
+
+export interface PdfImage {
+  jpeg: Uint8Array;
+  pixelWidth: number;
+  pixelHeight: number;
+  /** Placement in points, measured from the top-left corner of the page */
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface PdfPage {
+  width: number;
+  height: number;
+  images: PdfImage[];
+}
+
+// A4 in points
+export const A4_WIDTH = 595.28;
+export const A4_HEIGHT = 841.89;
+
+/**
+ * Builds a PDF document with one page per entry.
+ * @param pages The pages, each with the JPEG images to place on it.
+ * @returns The document as a Blob ready to download or print.
+ */
+export const createPdf = (pages: PdfPage[]): Blob => {
+  const encoder = new TextEncoder();
+  const chunks: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+
+  const write = (chunk: string | Uint8Array) => {
+    const bytes = typeof chunk === 'string' ? encoder.encode(chunk) : chunk;
+    chunks.push(bytes);
+    length += bytes.length;
+  };
+
+  // Object numbers: 1 catalog, 2 page tree, then per page: page, contents, images
+  let nextId = 3;
+  const layout = pages.map(page => {
+    const pageId = nextId++;
+    const contentsId = nextId++;
+    const imageIds = page.images.map(() => nextId++);
+    return { page, pageId, contentsId, imageIds };
+  });
+
+  const beginObject = (id: number) => {
+    offsets[id] = length;
+    write(`${id} 0 obj\n`);
+  };
+
+  write('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n');
+
+  beginObject(1);
+  write('<< /Type /Catalog /Pages 2 0 R >>\nendobj\n');
+
+  beginObject(2);
+  write(`<< /Type /Pages /Kids [${layout.map(l => `${l.pageId} 0 R`).join(' ')}] /Count ${layout.length} >>\nendobj\n`);
+
+  for (const { page, pageId, contentsId, imageIds } of layout) {
+    const xObjects = imageIds.map((id, i) => `/Im${i} ${id} 0 R`).join(' ');
+    beginObject(pageId);
+    write(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${page.width} ${page.height}] ` +
+      `/Resources << /XObject << ${xObjects} >> >> /Contents ${contentsId} 0 R >>\nendobj\n`
+    );
+
+    // PDF measures from the bottom-left, so flip each image's y
+    const drawing = page.images
+      .map((image, i) =>
+        `q ${image.width.toFixed(2)} 0 0 ${image.height.toFixed(2)} ` +
+        `${image.x.toFixed(2)} ${(page.height - image.y - image.height).toFixed(2)} cm /Im${i} Do Q`
+      )
+      .join('\n');
+    const contents = encoder.encode(drawing);
+    beginObject(contentsId);
+    write(`<< /Length ${contents.length} >>\nstream\n`);
+    write(contents);
+    write('\nendstream\nendobj\n');
+
+    page.images.forEach((image, i) => {
+      beginObject(imageIds[i]);
+      write(
+        `<< /Type /XObject /Subtype /Image /Width ${image.pixelWidth} /Height ${image.pixelHeight} ` +
+        `/ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${image.jpeg.length} >>\nstream\n`
+      );
+      write(image.jpeg);
+      write('\nendstream\nendobj\n');
+    });
+  }
+
+  const xrefOffset = length;
+  write(`xref\n0 ${nextId}\n0000000000 65535 f \n`);
+  for (let id = 1; id < nextId; id++) {
+    write(`${String(offsets[id]).padStart(10, '0')} 00000 n \n`);
+  }
+  write(`trailer\n<< /Size ${nextId} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+  return new Blob(chunks, { type: 'application/pdf' });
+};
@@ -0,0 +1,52 @@
+import { PhotoData } from '../types';
+import { tagTerms } from './captionTags';
+
+export interface PhotoFilter {
+  query: string; // Words to find in the caption or tags; "people:2" matches a head count
+  from?: string; // Earliest capture date, as YYYY-MM-DD from a date input
+  to?: string; // Latest capture date, inclusive
+}
+
+export type FilterMode = 'highlight' | 'isolate';
+
+export const EMPTY_FILTER: PhotoFilter = { query: '' };
+
+const PEOPLE_TERM = /^people:(\d+)$/;
+
+export const isFilterActive = (filter: PhotoFilter): boolean =>
+  filter.query.trim() !== '' || !!filter.from || !!filter.to;
+
+// Date inputs give local calendar days; compare against the whole day
+const startOfDay = (day: string) => new Date(`${day}T00:00:00`).getTime();
+const endOfDay = (day: string) => new Date(`${day}T23:59:59.999`).getTime();
+
+/**
+ * Whether a photo passes the filter. Every word of the query has to appear
+ * somewhere in the caption, in any of its languages, or tags.
+ */
+export const matchesFilter = (photo: PhotoData, filter: PhotoFilter): boolean => {
+  if (filter.from && photo.timestamp < startOfDay(filter.from)) return false;
+  if (filter.to && photo.timestamp > endOfDay(filter.to)) return false;
+
+  const haystack = [photo.caption, ...Object.values(photo.translations ?? {}), ...tagTerms(photo.tags)].join(' ').toLowerCase();
+  return filter.query.toLowerCase().split(/\s+/).filter(Boolean).every(term => {
+    const people = PEOPLE_TERM.exec(term);
+    if (people) return photo.tags?.peopleCount === Number(people[1]);
+    return haystack.includes(term);
+  });
+};
+
+/**
+ * The tags used most across the wall, for one-click searches.
+ * @param limit How many to return.
+ */
+export const popularTags = (photos: PhotoData[], limit: number = 8): string[] => {
+  const counts = new Map<string, number>();
+  photos.forEach(photo => {
+    new Set(tagTerms(photo.tags)).forEach(tag => counts.set(tag, (counts.get(tag) ?? 0) + 1));
+  });
+  return [...counts.entries()]
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, limit)
+    .map(([tag]) => tag);
+};
@@ -0,0 +1,193 @@
+import { PhotoData, WallData } from '../types';
+import { flipImageHorizontally } from './imageUtils';
+
+const DB_NAME = 'bao-retro-camera';
+const DB_VERSION = 2; // v2 added the walls store
+
+// Metadata and image blobs live in separate stores so the wall layout can be
+// read (and rewritten on every drag) without touching the heavy pixel data.
+const META_STORE = 'photos';
+const IMAGE_STORE = 'images';
+const WALL_STORE = 'walls';
+
+type PhotoMeta = Omit<PhotoData, 'imageData'>;
+
+interface ImageRecord {
+  id: string;
+  blob: Blob;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// Writes are chained so a slow image conversion can never let an older
+// snapshot of the wall land after a newer one.
+let writeQueue: Promise<void> = Promise.resolve();
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(META_STORE)) {
+          db.createObjectStore(META_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(IMAGE_STORE)) {
+          db.createObjectStore(IMAGE_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(WALL_STORE)) {
+          db.createObjectStore(WALL_STORE, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a later call to retry if opening failed (e.g. private mode quirks)
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+const requestResult = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+const dataUrlToBlob = async (dataUrl: string): Promise<Blob> => {
+  const response = await fetch(dataUrl);
+  return response.blob();
+};
+
+const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+const toMeta = ({ imageData, ...meta }: PhotoData): PhotoMeta => meta;
+
+// A caption still being written when the page closed will never arrive; offer a retry instead
+const restartedCaption = (meta: PhotoMeta): PhotoMeta =>
+  meta.captionStatus === 'pending' ? { ...meta, captionStatus: 'failed', captionError: 'cancelled' } : meta;
+
+/**
+ * Loads every photo saved on the wall, re-attaching its image data.
+ * Photos whose image blob is missing are skipped rather than shown blank.
+ * @returns The stored photos, oldest first.
+ */
+export const loadPhotos = async (): Promise<PhotoData[]> => {
+  const db = await openDatabase();
+  const tx = db.transaction([META_STORE, IMAGE_STORE], 'readonly');
+  const [metas, images] = await Promise.all([
+    requestResult(tx.objectStore(META_STORE).getAll() as IDBRequest<PhotoMeta[]>),
+    requestResult(tx.objectStore(IMAGE_STORE).getAll() as IDBRequest<ImageRecord[]>),
+  ]);
+
+  const blobs = new Map(images.map(record => [record.id, record.blob]));
+  const photos: PhotoData[] = [];
+  for (const meta of metas) {
+    const blob = blobs.get(meta.id);
+    if (!blob) continue;
+    photos.push({ ...restartedCaption(meta), imageData: await blobToDataUrl(blob) });
+  }
+
+  photos.sort((a, b) => a.timestamp - b.timestamp);
+
+  // Photos captured before `mirrored` existed stored selfie-flipped pixels;
+  // turn them to true orientation once and save the result
+  const upgraded = await Promise.all(photos.map(upgradeLegacyPhoto));
+  if (upgraded.some((photo, i) => photo !== photos[i])) {
+    await syncPhotos(photos, upgraded);
+  }
+  return upgraded;
+};
+
+/**
+ * Brings a photo saved by an older version of the app up to the current shape.
+ * Exported so archives from older versions get the same treatment.
+ */
+export const upgradeLegacyPhoto = async (photo: PhotoData): Promise<PhotoData> => {
+  if (photo.mirrored !== undefined) return photo;
+  return { ...photo, imageData: await flipImageHorizontally(photo.imageData), mirrored: false };
+};
+
+const writePhotoChanges = async (previous: PhotoData[], next: PhotoData[]): Promise<void> => {
+  const previousById = new Map(previous.map(photo => [photo.id, photo]));
+  const nextIds = new Set(next.map(photo => photo.id));
+
+  const changed = next.filter(photo => previousById.get(photo.id) !== photo);
+  const removed = previous.filter(photo => !nextIds.has(photo.id));
+  if (changed.length === 0 && removed.length === 0) return;
+
+  // Convert images before opening the transaction: IndexedDB transactions
+  // auto-commit as soon as they are left idle across an await.
+  const newImages: ImageRecord[] = await Promise.all(
+    changed
+      .filter(photo => previousById.get(photo.id)?.imageData !== photo.imageData)
+      .map(async photo => ({ id: photo.id, blob: await dataUrlToBlob(photo.imageData) }))
+  );
+
+  const db = await openDatabase();
+  const tx = db.transaction([META_STORE, IMAGE_STORE], 'readwrite');
+  const metaStore = tx.objectStore(META_STORE);
+  const imageStore = tx.objectStore(IMAGE_STORE);
+
+  changed.forEach(photo => metaStore.put(toMeta(photo)));
+  newImages.forEach(record => imageStore.put(record));
+  removed.forEach(photo => {
+    metaStore.delete(photo.id);
+    imageStore.delete(photo.id);
+  });
+
+  await transactionDone(tx);
+};
+
+/**
+ * Writes the difference between two snapshots of the wall to storage.
+ * Only photos whose object identity changed are rewritten, and image blobs
+ * are only stored when a photo is new or its pixels were replaced.
+ * @param previous The wall as it was last persisted.
+ * @param next The wall as it is now.
+ */
+export const syncPhotos = (previous: PhotoData[], next: PhotoData[]): Promise<void> => {
+  const write = writeQueue.then(() => writePhotoChanges(previous, next));
+  writeQueue = write.catch(() => {});
+  return write;
+};
+
+/**
+ * Loads the saved walls, oldest first. Empty until the first wall is saved.
+ */
+export const loadWalls = async (): Promise<WallData[]> => {
+  const db = await openDatabase();
+  const tx = db.transaction(WALL_STORE, 'readonly');
+  const walls = await requestResult(tx.objectStore(WALL_STORE).getAll() as IDBRequest<WallData[]>);
+  return walls.sort((a, b) => a.createdAt - b.createdAt);
+};
+
+/**
+ * Replaces the saved walls with the given list. There are only ever a handful,
+ * so they are simply rewritten rather than diffed.
+ */
+export const saveWalls = (walls: WallData[]): Promise<void> => {
+  const write = writeQueue.then(async () => {
+    const db = await openDatabase();
+    const tx = db.transaction(WALL_STORE, 'readwrite');
+    const store = tx.objectStore(WALL_STORE);
+    store.clear();
+    walls.forEach(wall => store.put(wall));
+    await transactionDone(tx);
+  });
+  writeQueue = write.catch(() => {});
+  return write;
+};
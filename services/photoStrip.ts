@@ -0,0 +1,50 @@
+import { CaptureResolution, PhotoData } from '../types';
+import { aspectRatio, captureSize } from './cameraService';
+
+export const STRIP_FRAME_COUNT = 4;
+const STRIP_FRAME_ASPECT = '4:3'; // Landscape frames, like a photo booth
+const STRIP_BORDER = 0.06; // White border around and between frames, relative to frame width
+
+/**
+ * Width over height of a composed strip.
+ */
+export const STRIP_ASPECT_RATIO =
+  (1 + STRIP_BORDER * 2) / (STRIP_FRAME_COUNT / aspectRatio(STRIP_FRAME_ASPECT) + STRIP_BORDER * (STRIP_FRAME_COUNT + 1));
+
+/**
+ * Width over height of the picture itself, whatever kind of photo it is.
+ */
+export const photoAspectRatio = (photo: PhotoData): number =>
+  photo.kind === 'strip' ? STRIP_ASPECT_RATIO : aspectRatio(photo.aspect);
+
+/**
+ * Pixel size of one strip frame. Frames are half the single-shot size so the
+ * whole strip stays within the chosen resolution's budget.
+ */
+export const stripFrameSize = (resolution: CaptureResolution): { width: number, height: number } => {
+  const { width, height } = captureSize(STRIP_FRAME_ASPECT, resolution);
+  return { width: Math.round(width / 2), height: Math.round(height / 2) };
+};
+
+/**
+ * Stacks captured frames top to bottom on a white booth strip.
+ * @param frames Equally sized frames, in the order they were taken.
+ * @returns The strip as a PNG data URL.
+ */
+export const composeStrip = (frames: HTMLCanvasElement[]): string => {
+  const { width: frameWidth, height: frameHeight } = frames[0];
+  const border = Math.round(frameWidth * STRIP_BORDER);
+
+  const strip = document.createElement('canvas');
+  strip.width = frameWidth + border * 2;
+  strip.height = frameHeight * frames.length + border * (frames.length + 1);
+  const ctx = strip.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not available');
+
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, strip.width, strip.height);
+  frames.forEach((frame, i) => {
+    ctx.drawImage(frame, border, border + i * (frameHeight + border), frameWidth, frameHeight);
+  });
+  return strip.toDataURL('image/png');
+};
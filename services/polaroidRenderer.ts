@@ -0,0 +1,141 @@
+import { PhotoData } from '../types';
+import { getFilmStock } from './filmStocks';
+import { photoAspectRatio } from './photoStrip';
+import { loadImage } from './imageUtils';
+import { drawAnnotations } from './annotations';
+import { cardSize } from './wallLayout';
+import { handwrittenFont, isRightToLeft } from './captionLanguages';
+
+// Frame geometry in CSS pixels, matching the card on the wall
+export const POLAROID_WIDTH = 240;
+export const POLAROID_PADDING = 16;
+// The photo window is 3:4 at most; wider photos leave more room for the caption
+export const POLAROID_PHOTO_HEIGHT = Math.round((POLAROID_WIDTH - POLAROID_PADDING * 2) * 4 / 3);
+export const POLAROID_CAPTION_HEIGHT = 76;
+export const POLAROID_HEIGHT = POLAROID_PADDING + POLAROID_PHOTO_HEIGHT + POLAROID_CAPTION_HEIGHT;
+const STRIP_POLAROID_WIDTH = 160;
+
+// Breaks on spaces where there are any, and between characters for scripts without them
+const wrapText = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] => {
+  const tokens = text.includes(' ') ? text.split(/(\s+)/) : Array.from(text);
+  const lines: string[] = [];
+  let line = '';
+  for (const token of tokens) {
+    const candidate = line + token;
+    if (line && ctx.measureText(candidate).width > maxWidth) {
+      lines.push(line.trim());
+      line = token.trimStart();
+    } else {
+      line = candidate;
+    }
+  }
+  if (line.trim()) lines.push(line.trim());
+  return lines;
+};
+
+/**
+ * Frame size of a rendered photo in CSS pixels. Strips are narrow and grow
+ * as tall as their frames need; everything else shares the Polaroid frame.
+ */
+export const polaroidSize = (photo: PhotoData): { width: number, height: number } => {
+  if (photo.kind !== 'strip') return { width: POLAROID_WIDTH, height: POLAROID_HEIGHT };
+  const photoHeight = Math.round((STRIP_POLAROID_WIDTH - POLAROID_PADDING * 2) / photoAspectRatio(photo));
+  return { width: STRIP_POLAROID_WIDTH, height: POLAROID_PADDING + photoHeight + POLAROID_CAPTION_HEIGHT };
+};
+
+/**
+ * Makes sure the handwriting font is ready, for the caption's own letters too;
+ * falls back silently if it isn't.
+ */
+export const loadCaptionFont = (photo: PhotoData): Promise<unknown> =>
+  document.fonts?.load(`18px ${handwrittenFont(photo.captionLanguage)}`, photo.caption || undefined).catch(() => undefined) ?? Promise.resolve();
+
+/**
+ * Writes a photo's caption in its frame, centred between the photo and the date line.
+ * @param ctx A context whose units are the frame's CSS pixels, origin at its top left.
+ * @param length How many characters are written so far, for captions being
+ *   written out by hand; all of them when missing. Lines are laid out for the
+ *   whole caption, so words don't jump as it's written.
+ */
+export const drawCaption = (ctx: CanvasRenderingContext2D, photo: PhotoData, length: number = Infinity) => {
+  const { width, height } = polaroidSize(photo);
+  const photoWidth = width - POLAROID_PADDING * 2;
+  const captionTop = POLAROID_PADDING + Math.round(photoWidth / photoAspectRatio(photo));
+  const captionBottom = height - 24;
+  const lineHeight = 20;
+
+  ctx.save();
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.fillStyle = '#1f2937';
+  ctx.font = `16px ${handwrittenFont(photo.captionLanguage)}`;
+  ctx.direction = isRightToLeft(photo.captionLanguage) ? 'rtl' : 'ltr';
+  const maxLines = Math.max(2, Math.floor((captionBottom - captionTop - 8) / lineHeight));
+  const lines = wrapText(ctx, photo.caption, photoWidth).slice(0, maxLines);
+  const captionCentre = (captionTop + captionBottom) / 2;
+  let remaining = length;
+  lines.forEach((line, i) => {
+    const characters = Array.from(line);
+    if (remaining <= 0) return;
+    ctx.fillText(characters.slice(0, remaining).join(''), width / 2, captionCentre + (i - (lines.length - 1) / 2) * lineHeight);
+    remaining -= characters.length;
+  });
+  ctx.restore();
+};
+
+/**
+ * Draws a photo as a framed Polaroid with its caption and date, off-screen.
+ * @param photo The photo to render.
+ * @param scale Pixel density of the output relative to the on-screen card.
+ * @returns A canvas of the photo's polaroidSize times the scale.
+ */
+export const renderPolaroid = async (photo: PhotoData, scale: number = 2): Promise<HTMLCanvasElement> => {
+  const { width, height } = polaroidSize(photo);
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(width * scale);
+  canvas.height = Math.round(height * scale);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not available');
+
+  const [image] = await Promise.all([loadImage(photo.imageData), loadCaptionFont(photo)]);
+
+  ctx.scale(scale, scale);
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, width, height);
+
+  // Cover-fit the photo into its window, mirrored only if the card shows it mirrored
+  const photoWidth = width - POLAROID_PADDING * 2;
+  const photoHeight = Math.round(photoWidth / photoAspectRatio(photo));
+  const coverScale = Math.max(photoWidth / image.width, photoHeight / image.height);
+  const drawWidth = image.width * coverScale;
+  const drawHeight = image.height * coverScale;
+  ctx.save();
+  ctx.beginPath();
+  ctx.rect(POLAROID_PADDING, POLAROID_PADDING, photoWidth, photoHeight);
+  ctx.clip();
+  ctx.translate(POLAROID_PADDING + photoWidth / 2, POLAROID_PADDING + photoHeight / 2);
+  if (photo.mirrored) ctx.scale(-1, 1);
+  ctx.drawImage(image, -drawWidth / 2, -drawHeight / 2, drawWidth, drawHeight);
+  ctx.restore();
+
+  drawCaption(ctx, photo);
+
+  ctx.fillStyle = '#9ca3af';
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.font = '10px sans-serif';
+  const details = photo.filmStock ? `${photo.dateString} · ${getFilmStock(photo.filmStock).label}` : photo.dateString;
+  ctx.fillText(details, width / 2, height - 12);
+
+  // Annotations are fractions of the card on the wall, which has a shorter caption
+  // area than this frame; drawn in a card-sized box they stay where they were put
+  if (photo.annotations) {
+    const card = cardSize(photo);
+    ctx.save();
+    ctx.scale(width / card.width, width / card.width);
+    drawAnnotations(ctx, photo.annotations, card.width, card.height);
+    ctx.restore();
+  }
+
+  return canvas;
+};
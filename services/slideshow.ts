@@ -0,0 +1,269 @@
+import { PhotoData } from '../types';
+import { renderPolaroid, polaroidSize, drawCaption, loadCaptionFont, POLAROID_PADDING } from './polaroidRenderer';
+import { photoAspectRatio } from './photoStrip';
+import { developProgress, developLook } from './development';
+
+export type SlideOrder = 'time' | 'wall';
+export type SlideTransition = 'fade' | 'slide' | 'drop';
+export type SlideInterval = '3' | '5' | '8'; // Seconds per photo
+
+export interface SlideshowSettings {
+  order: SlideOrder;
+  transition: SlideTransition;
+  interval: SlideInterval;
+  skipDeveloping: boolean; // Leave out photos that haven't finished developing
+}
+
+export const SLIDE_ORDERS: { id: SlideOrder; label: string }[] = [
+  { id: 'time', label: 'Oldest first' },
+  { id: 'wall', label: 'Wall order' },
+];
+
+export const SLIDE_TRANSITIONS: { id: SlideTransition; label: string }[] = [
+  { id: 'fade', label: 'Fade' },
+  { id: 'slide', label: 'Slide' },
+  { id: 'drop', label: 'Drop in' },
+];
+
+export const SLIDE_INTERVALS: { id: SlideInterval; label: string }[] = [
+  { id: '3', label: '3 s' },
+  { id: '5', label: '5 s' },
+  { id: '8', label: '8 s' },
+];
+
+export const DEFAULT_SLIDESHOW_SETTINGS: SlideshowSettings = {
+  order: 'time',
+  transition: 'fade',
+  interval: '5',
+  skipDeveloping: true,
+};
+
+export const TRANSITION_MS = 800;
+const WRITE_CHARS_PER_SECOND = 18; // About as fast as the camera's pen
+const ROW_TOLERANCE = 120; // Wall pixels; cards whose tops are closer than this share a row
+const BACKDROP = '#1c1917';
+const VEIL_COLOR = '#b9c6c4'; // Matches the card's developing veil
+const CARD_SCALE = 3; // Pixel density of prepared cards; enough for a 1080p screen
+
+export const slideDuration = (interval: SlideInterval): number => Number(interval) * 1000;
+
+/**
+ * The photos a slideshow steps through, in order.
+ * Wall order reads the wall like a page: row by row from the top, left to right within a row.
+ */
+export const slideshowPhotos = (photos: PhotoData[], { order, skipDeveloping }: SlideshowSettings): PhotoData[] => {
+  const shown = skipDeveloping ? photos.filter(photo => !photo.isDeveloping) : photos;
+  if (order === 'time') return [...shown].sort((a, b) => a.timestamp - b.timestamp);
+
+  const rows: PhotoData[][] = [];
+  for (const photo of [...shown].sort((a, b) => a.position.y - b.position.y)) {
+    const row = rows[rows.length - 1];
+    if (row && photo.position.y - row[0].position.y < ROW_TOLERANCE) row.push(photo);
+    else rows.push([photo]);
+  }
+  return rows.flatMap(row => row.sort((a, b) => a.position.x - b.position.x));
+};
+
+/**
+ * How many characters of the caption are written out this long after the slide came on.
+ * Writing starts once the transition has settled.
+ */
+export const writtenLength = (sinceShown: number): number =>
+  Math.max(0, Math.floor((sinceShown - TRANSITION_MS) * WRITE_CHARS_PER_SECOND / 1000));
+
+// A photo ready to draw: its framed card without the caption, which is written out as it plays
+export interface Slide {
+  photo: PhotoData;
+  card: HTMLCanvasElement;
+}
+
+export const prepareSlide = async (photo: PhotoData): Promise<Slide> => {
+  const [card] = await Promise.all([renderPolaroid({ ...photo, caption: '' }, CARD_SCALE), loadCaptionFont(photo)]);
+  return { photo, card };
+};
+
+export interface SlideFrame {
+  current: Slide;
+  previous?: Slide; // Still leaving while the transition runs
+  sinceChange: number; // Milliseconds since the current slide came on
+  direction: 1 | -1; // Stepping forward or back, so slides leave the right way
+  transition: SlideTransition;
+}
+
+interface CardPose {
+  alpha: number;
+  offsetX: number;
+  offsetY: number;
+  zoom: number;
+}
+
+const easeOut = (t: number) => 1 - (1 - t) ** 3;
+
+// A card centred in the frame, tilted as on the wall, with as much caption as has been written
+const drawCard = (ctx: CanvasRenderingContext2D, width: number, height: number, slide: Slide, sinceShown: number, pose: CardPose) => {
+  const { photo, card } = slide;
+  const size = polaroidSize(photo);
+  const fit = Math.min(width * 0.8 / size.width, height * 0.86 / size.height) * pose.zoom;
+
+  ctx.save();
+  ctx.globalAlpha = pose.alpha;
+  ctx.translate(width / 2 + pose.offsetX, height / 2 + pose.offsetY);
+  ctx.rotate(photo.rotation * Math.PI / 180);
+  ctx.scale(fit, fit);
+  ctx.translate(-size.width / 2, -size.height / 2);
+
+  ctx.shadowColor = 'rgba(0, 0, 0, 0.5)';
+  ctx.shadowBlur = 40;
+  ctx.shadowOffsetY = 16;
+  ctx.drawImage(card, 0, 0, size.width, size.height);
+  ctx.shadowColor = 'transparent';
+
+  // Photos still developing show their veil, as on the wall
+  const { veilOpacity } = developLook(developProgress(photo, Date.now()));
+  if (veilOpacity > 0) {
+    const photoWidth = size.width - POLAROID_PADDING * 2;
+    ctx.globalAlpha = pose.alpha * veilOpacity;
+    ctx.fillStyle = VEIL_COLOR;
+    ctx.fillRect(POLAROID_PADDING, POLAROID_PADDING, photoWidth, Math.round(photoWidth / photoAspectRatio(photo)));
+    ctx.globalAlpha = pose.alpha;
+  }
+
+  drawCaption(ctx, photo, writtenLength(sinceShown));
+  ctx.restore();
+};
+
+const RESTING: CardPose = { alpha: 1, offsetX: 0, offsetY: 0, zoom: 1 };
+
+/**
+ * Draws one moment of the slideshow: the backdrop, the slide leaving (if any)
+ * and the slide arriving, partway through the transition between them.
+ */
+export const drawSlideshowFrame = (ctx: CanvasRenderingContext2D, width: number, height: number, frame: SlideFrame) => {
+  const { current, previous, sinceChange, direction, transition } = frame;
+  ctx.fillStyle = BACKDROP;
+  ctx.fillRect(0, 0, width, height);
+
+  const t = easeOut(Math.min(1, sinceChange / TRANSITION_MS));
+  if (!previous || t >= 1) {
+    // The first slide just fades up
+    drawCard(ctx, width, height, current, sinceChange, previous ? RESTING : { ...RESTING, alpha: t });
+    return;
+  }
+
+  switch (transition) {
+    case 'slide':
+      drawCard(ctx, width, height, previous, Infinity, { ...RESTING, offsetX: -direction * width * t });
+      drawCard(ctx, width, height, current, sinceChange, { ...RESTING, offsetX: direction * width * (1 - t) });
+      break;
+    case 'drop':
+      // Tossed onto the pile from above, like a fresh print landing on the table
+      drawCard(ctx, width, height, previous, Infinity, { ...RESTING, alpha: 1 - t, zoom: 1 - 0.05 * t });
+      drawCard(ctx, width, height, current, sinceChange, { ...RESTING, offsetY: -height * (1 - t), zoom: 1.15 - 0.15 * t });
+      break;
+    default:
+      drawCard(ctx, width, height, previous, Infinity, { ...RESTING, alpha: 1 - t });
+      drawCard(ctx, width, height, current, sinceChange, { ...RESTING, alpha: t });
+  }
+};
+
+export const VIDEO_WIDTH = 1280;
+export const VIDEO_HEIGHT = 720;
+const VIDEO_FPS = 30;
+const VIDEO_BITS_PER_SECOND = 5_000_000;
+
+const videoMimeType = (): string | undefined =>
+  typeof MediaRecorder === 'undefined'
+    ? undefined
+    : ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'].find(type => MediaRecorder.isTypeSupported(type));
+
+/**
+ * Whether this browser can record a slideshow to WebM.
+ */
+export const canRecordVideo = (): boolean =>
+  typeof HTMLCanvasElement.prototype.captureStream === 'function' && !!videoMimeType();
+
+// Redraws at the video's frame rate for a while; timing follows the clock, so a busy tab drops frames rather than slowing down
+const playFor = (durationMs: number, draw: (elapsed: number) => void, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const start = performance.now();
+    const tick = () => {
+      if (signal?.aborted) {
+        clearInterval(timer);
+        reject(new DOMException('Recording was cancelled', 'AbortError'));
+        return;
+      }
+      const elapsed = performance.now() - start;
+      draw(Math.min(elapsed, durationMs));
+      if (elapsed >= durationMs) {
+        clearInterval(timer);
+        resolve();
+      }
+    };
+    const timer = setInterval(tick, 1000 / VIDEO_FPS);
+    tick();
+  });
+
+/**
+ * Plays the slideshow onto an off-screen canvas and records it as a WebM video.
+ * Recording happens in real time, so it takes as long as the slideshow; keep
+ * the tab in front or background throttling leaves it choppy.
+ * @param photos The photos in slideshow order.
+ * @param onProgress Called with the fraction done, 0 to 1, after each photo.
+ * @param signal Stops the recording; the promise then rejects with an AbortError.
+ */
+export const recordSlideshow = async (
+  photos: PhotoData[],
+  settings: SlideshowSettings,
+  onProgress: (fraction: number) => void,
+  signal?: AbortSignal
+): Promise<Blob> => {
+  const mimeType = videoMimeType();
+  if (!mimeType) throw new Error("This browser can't record video");
+  if (photos.length === 0) throw new Error('There are no photos to record');
+
+  const canvas = document.createElement('canvas');
+  canvas.width = VIDEO_WIDTH;
+  canvas.height = VIDEO_HEIGHT;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not available');
+
+  const stream = canvas.captureStream(VIDEO_FPS);
+  const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: VIDEO_BITS_PER_SECOND });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => {
+    if (e.data.size > 0) chunks.push(e.data);
+  };
+  const stopped = new Promise(resolve => { recorder.onstop = resolve; });
+
+  // Cards are prepared one ahead, so only a few are held in memory however long the show
+  let current = await prepareSlide(photos[0]);
+  let previous: Slide | undefined;
+  recorder.start(1000);
+  try {
+    for (let i = 0; i < photos.length; i++) {
+      const next = i + 1 < photos.length ? prepareSlide(photos[i + 1]) : null;
+      // Only awaited once this slide has played, if at all; until then a failure would go unhandled.
+      // Awaiting it below still throws.
+      next?.catch(() => {});
+      const shown = current;
+      const leaving = previous;
+      await playFor(slideDuration(settings.interval), (elapsed) => drawSlideshowFrame(ctx, VIDEO_WIDTH, VIDEO_HEIGHT, {
+        current: shown,
+        previous: leaving,
+        sinceChange: elapsed,
+        direction: 1,
+        transition: settings.transition,
+      }), signal);
+      onProgress((i + 1) / photos.length);
+      if (next) {
+        previous = current;
+        current = await next;
+      }
+    }
+  } finally {
+    recorder.stop();
+    stream.getTracks().forEach(track => track.stop());
+  }
+  await stopped;
+  return new Blob(chunks, { type: 'video/webm' });
+};
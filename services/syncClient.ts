@@ -0,0 +1,113 @@
+import { DEFAULT_SYNC_PORT, ClientMessage, ServerMessage, SyncOp } from './syncProtocol';
+import { readSnapshot, readSyncOp } from './syncMessages';
+import { isFiniteNumber, isRecord } from './guards';
+
+export type SyncStatus = 'offline' | 'connecting' | 'live';
+
+export type SyncSnapshot = Extract<ServerMessage, { type: 'snapshot' }>;
+
+export interface SyncHandlers {
+  /**
+   * The room's current state, on every (re)connect.
+   * @param pending Local ops not yet sent, e.g. made while offline; they go out right after.
+   */
+  onSnapshot: (snapshot: SyncSnapshot, pending: SyncOp[]) => void;
+  onOp: (op: SyncOp) => void; // Someone else changed the wall
+  onStatus: (status: SyncStatus, people: number) => void;
+}
+
+export interface SyncConnection {
+  send: (op: SyncOp) => void; // Queued until the connection is ready
+  close: () => void;
+}
+
+const RECONNECT_BASE_MS = 1000;
+const RECONNECT_MAX_MS = 30000;
+
+/**
+ * Where the relay server lives: SYNC_SERVER_URL when set, otherwise the
+ * default port on the machine serving the app, so phones on the same
+ * network reach the laptop running `npm run sync-server`.
+ */
+export const syncServerUrl = (): string =>
+  process.env.SYNC_SERVER_URL || `ws://${window.location.hostname || 'localhost'}:${DEFAULT_SYNC_PORT}`;
+
+/**
+ * Joins a room on the relay server, reconnecting with backoff whenever the
+ * connection drops. Local ops wait in an outbox until the room's snapshot
+ * has arrived, so nothing made offline is lost while the tab stays open.
+ * @param room The room code everyone on the shared wall uses.
+ * @param clientId This tab's id, used to break ties between edits.
+ */
+export const connectSync = (room: string, clientId: string, handlers: SyncHandlers): SyncConnection => {
+  let socket: WebSocket | null = null;
+  let isReady = false; // The snapshot has arrived on this connection
+  let isClosed = false;
+  let retryDelay = RECONNECT_BASE_MS;
+  let retryTimer: ReturnType<typeof setTimeout> | undefined;
+  const outbox: SyncOp[] = [];
+
+  const send = (message: ClientMessage) => socket?.send(JSON.stringify(message));
+
+  const flush = () => {
+    while (isReady && outbox.length > 0 && socket?.readyState === WebSocket.OPEN) {
+      send({ type: 'op', op: outbox.shift()! });
+    }
+  };
+
+  const open = () => {
+    handlers.onStatus('connecting', 0);
+    socket = new WebSocket(syncServerUrl());
+
+    socket.onopen = () => {
+      retryDelay = RECONNECT_BASE_MS;
+      send({ type: 'join', room, clientId });
+    };
+
+    // The relay checks ops too, but a tab takes nothing onto its wall unchecked
+    socket.onmessage = (event) => {
+      let message: unknown;
+      try {
+        message = JSON.parse(event.data);
+      } catch {
+        return;
+      }
+      if (!isRecord(message)) return;
+      if (message.type === 'snapshot') {
+        const snapshot = readSnapshot(message);
+        if (!snapshot) return;
+        isReady = true;
+        handlers.onSnapshot(snapshot, [...outbox]);
+        flush();
+      } else if (message.type === 'op') {
+        const op = readSyncOp(message.op);
+        if (op) handlers.onOp(op);
+      } else if (message.type === 'presence' && isFiniteNumber(message.count)) {
+        handlers.onStatus('live', message.count);
+      }
+    };
+
+    socket.onclose = () => {
+      isReady = false;
+      socket = null;
+      if (isClosed) return;
+      handlers.onStatus('offline', 0);
+      retryTimer = setTimeout(open, retryDelay);
+      retryDelay = Math.min(retryDelay * 2, RECONNECT_MAX_MS);
+    };
+  };
+
+  open();
+
+  return {
+    send: (op) => {
+      outbox.push(op);
+      flush();
+    },
+    close: () => {
+      isClosed = true;
+      clearTimeout(retryTimer);
+      socket?.close();
+    },
+  };
+};
@@ -0,0 +1,151 @@
+import { CaptionStatus, Development, PhotoKind, Position } from '../types';
+import { CAPTION_STYLES } from './captionStyles';
+import { FILM_STOCKS } from './filmStocks';
+import { ASPECTS } from './cameraService';
+import { CAPTION_ERROR_KINDS } from './captionErrors';
+import { sanitizeTags } from './captionTags';
+import { sanitizeAnnotations } from './annotations';
+import { isRecord, isFiniteNumber } from './guards';
+import type { PhotoClock, ServerMessage, SharedPhoto, Stamp, SyncOp, SyncedPhoto } from './syncProtocol';
+
+// Checks what comes in from other people's tabs. The relay checks every op
+// before keeping or passing it on, and each tab checks ops and snapshots again
+// as they arrive, so one bad client can't break the wall for the whole room.
+
+type Snapshot = Extract<ServerMessage, { type: 'snapshot' }>;
+
+// Each field's reader gives back a clean value, or undefined when the value isn't one
+type PhotoFields = Required<SharedPhoto>;
+type FieldReader<K extends keyof PhotoFields> = (value: unknown) => PhotoFields[K] | undefined;
+type FieldReaders = { [K in keyof PhotoFields]: FieldReader<K> };
+
+const CAPTION_STATUSES: CaptionStatus[] = ['pending', 'ready', 'failed'];
+const PHOTO_KINDS: PhotoKind[] = ['single', 'strip'];
+
+// Fields a put must carry; the rest may be missing
+const REQUIRED_FIELDS: (keyof SharedPhoto)[] = ['id', 'imageData', 'caption', 'dateString', 'timestamp', 'isDeveloping', 'position', 'rotation'];
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+const isBoolean = (value: unknown): value is boolean => typeof value === 'boolean';
+const isPoint = (value: unknown): value is Position => isRecord(value) && isFiniteNumber(value.x) && isFiniteNumber(value.y);
+
+const accept = <T>(guard: (value: unknown) => value is T) => (value: unknown): T | undefined =>
+  guard(value) ? value : undefined;
+
+const oneOf = <T>(values: readonly T[]) => (value: unknown): T | undefined =>
+  (values as readonly unknown[]).includes(value) ? (value as T) : undefined;
+
+const readDevelopment = (value: unknown): Development | undefined => {
+  if (!isRecord(value) || !isFiniteNumber(value.startedAt) || !isFiniteNumber(value.durationMs)) return undefined;
+  if (value.shakenMs === undefined) return { startedAt: value.startedAt, durationMs: value.durationMs };
+  return isFiniteNumber(value.shakenMs) ? { startedAt: value.startedAt, durationMs: value.durationMs, shakenMs: value.shakenMs } : undefined;
+};
+
+const readTranslations = (value: unknown): Record<string, string> | undefined =>
+  isRecord(value) && Object.values(value).every(isString) ? { ...(value as Record<string, string>) } : undefined;
+
+const FIELDS: FieldReaders = {
+  id: value => (isString(value) && value ? value : undefined),
+  imageData: value => (isString(value) && value.startsWith('data:image/') ? value : undefined),
+  caption: accept(isString),
+  dateString: accept(isString),
+  timestamp: accept(isFiniteNumber),
+  isDeveloping: accept(isBoolean),
+  development: readDevelopment,
+  position: value => (isPoint(value) ? { x: value.x, y: value.y } : undefined),
+  rotation: accept(isFiniteNumber),
+  zIndex: accept(isFiniteNumber),
+  captionStyle: oneOf(CAPTION_STYLES.map(s => s.id)),
+  filmStock: oneOf(FILM_STOCKS.map(s => s.id)),
+  mirrored: accept(isBoolean),
+  aspect: oneOf(ASPECTS.map(a => a.id)),
+  kind: oneOf(PHOTO_KINDS),
+  captionStatus: oneOf(CAPTION_STATUSES),
+  captionError: oneOf(CAPTION_ERROR_KINDS),
+  captionLanguage: accept(isString),
+  translations: readTranslations,
+  tags: sanitizeTags,
+  annotations: sanitizeAnnotations,
+};
+
+const readField = <K extends keyof PhotoFields>(to: Partial<PhotoFields>, key: K, raw: unknown): boolean => {
+  const value = FIELDS[key](raw);
+  if (value === undefined) return false;
+  to[key] = value;
+  return true;
+};
+
+// All or nothing: a single unknown or unreadable field turns the whole lot down
+const readFields = (raw: unknown): Partial<SharedPhoto> | null => {
+  if (!isRecord(raw)) return null;
+  const fields: Partial<SharedPhoto> = {};
+  for (const [key, value] of Object.entries(raw)) {
+    if (!Object.hasOwn(FIELDS, key) || !readField(fields, key as keyof SharedPhoto, value)) return null;
+  }
+  return fields;
+};
+
+const readPhoto = (raw: unknown): SharedPhoto | null => {
+  const fields = readFields(raw);
+  return fields && REQUIRED_FIELDS.every(key => Object.hasOwn(fields, key)) ? (fields as SharedPhoto) : null;
+};
+
+const readStamp = (value: unknown): Stamp | null =>
+  isRecord(value) && isFiniteNumber(value.clock) && isString(value.clientId) ? { clock: value.clock, clientId: value.clientId } : null;
+
+const readClock = (value: unknown): PhotoClock | null => {
+  if (!isRecord(value) || !isRecord(value.fields)) return null;
+  const fields: Record<string, Stamp> = {};
+  for (const [key, raw] of Object.entries(value.fields)) {
+    const stamp = readStamp(raw);
+    if (!stamp) return null;
+    fields[key] = stamp;
+  }
+  if (value.deleted === undefined) return { fields };
+  const deleted = readStamp(value.deleted);
+  return deleted && { fields, deleted };
+};
+
+/**
+ * Checks an op from another tab, keeping only what a shared photo can hold.
+ * @returns A clean copy of the op, or null when any part of it can't be read.
+ */
+export const readSyncOp = (raw: unknown): SyncOp | null => {
+  if (!isRecord(raw)) return null;
+  const stamp = readStamp(raw.stamp);
+  if (!stamp) return null;
+
+  if (raw.kind === 'put') {
+    const photo = readPhoto(raw.photo);
+    return photo && { kind: 'put', photo, stamp };
+  }
+  if (!isString(raw.id) || !raw.id) return null;
+  if (raw.kind === 'update') {
+    // An update can't move its edits onto another photo
+    const fields = isRecord(raw.fields) && !Object.hasOwn(raw.fields, 'id') ? readFields(raw.fields) : null;
+    return fields && { kind: 'update', id: raw.id, fields, stamp };
+  }
+  return raw.kind === 'delete' ? { kind: 'delete', id: raw.id, stamp } : null;
+};
+
+/**
+ * Checks a room's snapshot from the relay. Photos that can't be read are left
+ * out rather than costing the rest of the wall.
+ * @returns A clean copy of the snapshot, or null when it isn't one at all.
+ */
+export const readSnapshot = (raw: Record<string, unknown>): Snapshot | null => {
+  if (!Array.isArray(raw.photos) || !isRecord(raw.tombstones) || !isFiniteNumber(raw.clock)) return null;
+
+  const photos: SyncedPhoto[] = [];
+  for (const synced of raw.photos) {
+    const photo = isRecord(synced) ? readPhoto(synced.photo) : null;
+    const clock = isRecord(synced) ? readClock(synced.clock) : null;
+    if (photo && clock) photos.push({ photo, clock });
+  }
+  const tombstones: Record<string, Stamp> = {};
+  for (const [id, value] of Object.entries(raw.tombstones)) {
+    const stamp = readStamp(value);
+    if (stamp) tombstones[id] = stamp;
+  }
+  return { type: 'snapshot', photos, tombstones, clock: raw.clock };
+};
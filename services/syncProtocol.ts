@@ -0,0 +1,109 @@
+// Shared by the browser and the relay server (server/syncServer.ts)
+import { PhotoData } from '../types';
+
+export const DEFAULT_SYNC_PORT = 8787;
+export const MAX_SYNC_MESSAGE_BYTES = 25 * 1024 * 1024; // Room for a full-resolution photo strip
+
+// A Lamport timestamp. Ties on the clock go to the higher client id, so every
+// replica picks the same winner without talking to the others.
+export interface Stamp {
+  clock: number;
+  clientId: string;
+}
+
+// What other people see of a photo; which wall it hangs on is each person's own business
+export type SharedPhoto = Omit<PhotoData, 'wallId' | 'isStaged'>;
+
+// When each field of a photo was last written, plus when it was deleted
+export interface PhotoClock {
+  fields: Record<string, Stamp>;
+  deleted?: Stamp;
+}
+
+export type SyncOp =
+  | { kind: 'put'; photo: SharedPhoto; stamp: Stamp } // Added, or brought back by undo
+  | { kind: 'update'; id: string; fields: Partial<SharedPhoto>; stamp: Stamp }
+  | { kind: 'delete'; id: string; stamp: Stamp };
+
+export interface SyncedPhoto {
+  photo: SharedPhoto;
+  clock: PhotoClock;
+}
+
+export type ClientMessage =
+  | { type: 'join'; room: string; clientId: string }
+  | { type: 'op'; op: SyncOp };
+
+export type ServerMessage =
+  | { type: 'snapshot'; photos: SyncedPhoto[]; tombstones: Record<string, Stamp>; clock: number }
+  | { type: 'op'; op: SyncOp }
+  | { type: 'presence'; count: number }; // People in the room, including you
+
+// What an incoming op does to the photo it names
+export type Resolution =
+  | { effect: 'none' }
+  | { effect: 'put'; photo: SharedPhoto }
+  | { effect: 'update'; fields: Partial<SharedPhoto> }
+  | { effect: 'delete' };
+
+export const compareStamps = (a: Stamp, b: Stamp): number =>
+  a.clock - b.clock || (a.clientId < b.clientId ? -1 : a.clientId > b.clientId ? 1 : 0);
+
+const newer = (stamp: Stamp, than?: Stamp) => !than || compareStamps(stamp, than) > 0;
+
+const fieldsOf = (photo: Partial<SharedPhoto>) => Object.keys(photo) as (keyof SharedPhoto)[];
+
+const copyField = <K extends keyof SharedPhoto>(to: Partial<SharedPhoto>, from: Partial<SharedPhoto>, key: K) => {
+  to[key] = from[key];
+};
+
+/**
+ * Strips the fields that stay on this device.
+ */
+export const toSharedPhoto = ({ wallId, isStaged, ...photo }: PhotoData): SharedPhoto => photo;
+
+/**
+ * Decides what an op does, field by field: the latest write to each field wins,
+ * so two people dragging the same card both end up with the same position.
+ * A delete beats any edit; only a newer put (e.g. an undo) brings a photo back.
+ * @param clock What this replica knows about the photo, if anything.
+ * @param exists Whether the photo is currently on this replica's wall.
+ * @returns The photo's new clock and what to do to the wall.
+ */
+export const resolveOp = (clock: PhotoClock | undefined, exists: boolean, op: SyncOp): [PhotoClock, Resolution] => {
+  const known: PhotoClock = clock ?? { fields: {} };
+
+  if (op.kind === 'delete') {
+    if (!newer(op.stamp, known.deleted)) return [known, { effect: 'none' }];
+    return [{ ...known, deleted: op.stamp }, exists ? { effect: 'delete' } : { effect: 'none' }];
+  }
+
+  if (op.kind === 'put') {
+    if (known.deleted && !newer(op.stamp, known.deleted)) return [known, { effect: 'none' }];
+    const fields = { ...known.fields };
+    const winners: Partial<SharedPhoto> = {};
+    for (const key of fieldsOf(op.photo)) {
+      if (exists && !newer(op.stamp, fields[key])) continue;
+      fields[key] = op.stamp;
+      copyField(winners, op.photo, key);
+    }
+    const next: PhotoClock = { fields };
+    if (!exists) return [next, { effect: 'put', photo: op.photo }];
+    return [next, Object.keys(winners).length > 0 ? { effect: 'update', fields: winners } : { effect: 'none' }];
+  }
+
+  if (known.deleted || !exists) return [known, { effect: 'none' }];
+  const fields = { ...known.fields };
+  const winners: Partial<SharedPhoto> = {};
+  for (const key of fieldsOf(op.fields)) {
+    if (!newer(op.stamp, fields[key])) continue;
+    fields[key] = op.stamp;
+    copyField(winners, op.fields, key);
+  }
+  return [{ ...known, fields }, Object.keys(winners).length > 0 ? { effect: 'update', fields: winners } : { effect: 'none' }];
+};
+
+/**
+ * The photo id an op is about.
+ */
+export const opPhotoId = (op: SyncOp): string => (op.kind === 'put' ? op.photo.id : op.id);
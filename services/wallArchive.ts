@@ -0,0 +1,242 @@
+import { PhotoData, PhotoKind, CaptionStatus, Position } from '../types';
+import { CAPTION_STYLES } from './captionStyles';
+import { FILM_STOCKS } from './filmStocks';
+import { generateId } from './ids';
+import { ASPECTS } from './cameraService';
+import { upgradeLegacyPhoto } from './photoStorage';
+import { sanitizeTags } from './captionTags';
+import { CAPTION_ERROR_KINDS } from './captionErrors';
+import { sanitizeAnnotations } from './annotations';
+import { isRecord, isFiniteNumber } from './guards';
+
+export const ARCHIVE_FORMAT = 'bao-retro-wall';
+export const ARCHIVE_VERSION = 2;
+
+export interface WallArchive {
+  format: typeof ARCHIVE_FORMAT;
+  version: number;
+  exportedAt: string;
+  photos: PhotoData[];
+}
+
+export type ImportMode = 'merge' | 'replace';
+
+export interface ImportResult {
+  photos: PhotoData[]; // The wall after the import
+  added: number;
+  skipped: number; // Exact duplicates of photos already on the wall
+  renamed: number; // Different photos whose id was already taken
+}
+
+export class ArchiveError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ArchiveError';
+  }
+}
+
+type Guard<T> = (value: unknown) => value is T;
+
+// An archive part-way through upgrading: whatever fields it had, plus the version it's now at
+type VersionedArchive = Record<string, unknown> & { version: number };
+
+// v1 archives stored selfie-flipped pixels; flip them back before the photo is checked
+const unflipPhoto = (photo: unknown): unknown =>
+  isRecord(photo) && typeof photo.imageData === 'string'
+    ? upgradeLegacyPhoto({ ...photo, mirrored: undefined } as unknown as PhotoData)
+    : photo;
+
+// Each entry upgrades an archive from the given version to the next one.
+// Version 0 is a bare array of photos, as dumped straight from app state.
+const MIGRATIONS: Record<number, (raw: unknown) => VersionedArchive | Promise<VersionedArchive>> = {
+  0: (raw) => ({
+    format: ARCHIVE_FORMAT,
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    photos: raw,
+  }),
+  // v2 stores true-orientation pixels plus a `mirrored` display flag
+  1: async (raw) => {
+    const archive = isRecord(raw) ? raw : {};
+    return {
+      ...archive,
+      version: 2,
+      photos: Array.isArray(archive.photos) ? await Promise.all(archive.photos.map(unflipPhoto)) : archive.photos,
+    };
+  },
+};
+
+const upgradeArchive = async (raw: unknown): Promise<Record<string, unknown>> => {
+  if (Array.isArray(raw)) return upgradeArchive(await MIGRATIONS[0](raw));
+  if (!isRecord(raw) || raw.format !== ARCHIVE_FORMAT) {
+    throw new ArchiveError("This file isn't a Bao Retro Camera wall archive.");
+  }
+
+  if (typeof raw.version !== 'number') {
+    throw new ArchiveError('The archive has no version number.');
+  }
+  if (raw.version > ARCHIVE_VERSION) {
+    throw new ArchiveError(`The archive was made by a newer version of the app (v${raw.version}).`);
+  }
+
+  let version = raw.version;
+  let archive: Record<string, unknown> = { ...raw };
+  while (version < ARCHIVE_VERSION) {
+    const upgraded = await MIGRATIONS[version](archive);
+    archive = upgraded;
+    version = upgraded.version;
+  }
+  return archive;
+};
+
+const CAPTION_STATUSES: CaptionStatus[] = ['pending', 'ready', 'failed'];
+const PHOTO_KINDS: PhotoKind[] = ['single', 'strip'];
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+const isBoolean = (value: unknown): value is boolean => typeof value === 'boolean';
+const isPoint = (value: unknown): value is Position => isRecord(value) && isFiniteNumber(value.x) && isFiniteNumber(value.y);
+
+const isTranslations = (value: unknown): value is Record<string, string> =>
+  isRecord(value) && Object.values(value).every(isString);
+
+const oneOf = <T>(values: readonly T[]): Guard<T> =>
+  (value): value is T => (values as readonly unknown[]).includes(value);
+
+const optional = <T>(guard: Guard<T>): Guard<T | undefined> =>
+  (value): value is T | undefined => value === undefined || guard(value);
+
+const validatePhoto = (raw: unknown, index: number): PhotoData => {
+  const fail = (field: string, expected: string): never => {
+    throw new ArchiveError(`Photo ${index + 1}: "${field}" should be ${expected}.`);
+  };
+  if (!isRecord(raw)) return fail('photo', 'an object');
+
+  const field = <T>(name: string, guard: Guard<T>, expected: string): T => {
+    const value = raw[name];
+    return guard(value) ? value : fail(name, expected);
+  };
+  // Checked in this order, so the first problem in a photo is the one reported
+  const id = field('id', (value): value is string => isString(value) && !!value, 'a non-empty string');
+  const imageData = field('imageData', (value): value is string => isString(value) && value.startsWith('data:image/'), 'an image data URL');
+  const caption = field('caption', isString, 'a string');
+  const dateString = field('dateString', isString, 'a string');
+  const timestamp = field('timestamp', isFiniteNumber, 'a number');
+  const position = field('position', isPoint, 'an {x, y} point');
+  const rotation = field('rotation', isFiniteNumber, 'a number');
+  const zIndex = field('zIndex', optional(isFiniteNumber), 'a number');
+  const captionStyle = field('captionStyle', optional(oneOf(CAPTION_STYLES.map(s => s.id))), 'a known caption style');
+  const filmStock = field('filmStock', optional(oneOf(FILM_STOCKS.map(s => s.id))), 'a known film stock');
+  const captionStatus = field('captionStatus', optional(oneOf(CAPTION_STATUSES)), 'a caption status');
+  const captionError = field('captionError', optional(oneOf(CAPTION_ERROR_KINDS)), 'a caption error');
+  const mirrored = field('mirrored', isBoolean, 'true or false');
+  const aspect = field('aspect', optional(oneOf(ASPECTS.map(a => a.id))), 'a known aspect ratio');
+  const kind = field('kind', optional(oneOf(PHOTO_KINDS)), 'a known kind of photo');
+  const tags = raw.tags === undefined ? undefined : sanitizeTags(raw.tags) ?? fail('tags', 'people count, setting, mood and objects');
+  const annotations = raw.annotations === undefined
+    ? undefined
+    : sanitizeAnnotations(raw.annotations) ?? fail('annotations', 'a list of doodles, stickers and notes');
+  const captionLanguage = field('captionLanguage', optional(isString), 'a language code');
+  const translations = field('translations', optional(isTranslations), 'captions by language code');
+
+  return {
+    id,
+    imageData,
+    caption,
+    dateString,
+    timestamp,
+    // Imported photos land straight on the wall, fully developed
+    isDeveloping: false,
+    isStaged: false,
+    position: { x: position.x, y: position.y },
+    rotation,
+    zIndex,
+    captionStyle,
+    filmStock,
+    mirrored,
+    aspect,
+    kind,
+    // A caption that was still being written when exported will never arrive; offer a retry
+    captionStatus: captionStatus === 'pending' ? 'failed' : captionStatus,
+    captionError,
+    tags,
+    annotations,
+    captionLanguage,
+    translations: translations && { ...translations },
+  };
+};
+
+/**
+ * Wraps the wall in a versioned archive that holds every photo field.
+ * @param photos The photos to archive, in wall order.
+ */
+export const createArchive = (photos: PhotoData[]): WallArchive => ({
+  format: ARCHIVE_FORMAT,
+  version: ARCHIVE_VERSION,
+  exportedAt: new Date().toISOString(),
+  photos: photos.filter(photo => !photo.isStaged),
+});
+
+/**
+ * Serializes the wall as a downloadable JSON archive.
+ */
+export const createArchiveBlob = (photos: PhotoData[]): Blob =>
+  new Blob([JSON.stringify(createArchive(photos))], { type: 'application/json' });
+
+/**
+ * Parses, upgrades and validates an archive file.
+ * @param file A file picked or dropped by the user.
+ * @returns The archived photos; throws an ArchiveError describing any problem.
+ */
+export const readArchive = async (file: Blob): Promise<PhotoData[]> => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(await file.text());
+  } catch {
+    throw new ArchiveError("The file isn't valid JSON.");
+  }
+
+  const archive = await upgradeArchive(raw);
+  if (!Array.isArray(archive.photos)) {
+    throw new ArchiveError('The archive has no photo list.');
+  }
+  return archive.photos.map(validatePhoto);
+};
+
+/**
+ * Combines archived photos with the current wall.
+ * In merge mode, photos already on the wall are skipped and different photos
+ * that happen to share an id get a fresh one, so nothing is overwritten.
+ * @param current The photos on the wall now.
+ * @param imported The photos read from the archive.
+ * @param mode Whether to add to the wall or start over with the archive.
+ */
+export const importPhotos = (current: PhotoData[], imported: PhotoData[], mode: ImportMode): ImportResult => {
+  if (mode === 'replace') {
+    // Still goes through the merge so ids repeated inside the archive get untangled
+    return importPhotos([], imported, 'merge');
+  }
+
+  const byId = new Map(current.map(photo => [photo.id, photo]));
+  const result: ImportResult = { photos: [...current], added: 0, skipped: 0, renamed: 0 };
+
+  for (const photo of imported) {
+    const existing = byId.get(photo.id);
+    if (existing && existing.imageData === photo.imageData && existing.timestamp === photo.timestamp) {
+      result.skipped++;
+      continue;
+    }
+
+    let incoming = photo;
+    if (existing) {
+      let id = generateId();
+      while (byId.has(id)) id = generateId();
+      incoming = { ...photo, id };
+      result.renamed++;
+    }
+    byId.set(incoming.id, incoming);
+    result.photos.push(incoming);
+    result.added++;
+  }
+
+  return result;
+};
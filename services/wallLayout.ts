@@ -0,0 +1,167 @@
+import { PhotoData, Position } from '../types';
+
+// Size of a PhotoCard on the wall, in CSS pixels
+export const CARD_WIDTH = 240;
+export const CARD_HEIGHT = 320;
+// Photo strips are narrower and much taller
+export const STRIP_CARD_WIDTH = 160;
+export const STRIP_CARD_HEIGHT = 510;
+
+export type ArrangeLayout = 'grid' | 'pile' | 'timeline';
+
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+const GAP = 32;
+
+const zOf = (photo: PhotoData) => photo.zIndex ?? 0;
+
+/**
+ * The photos sorted from bottom to top of the stack. Ties keep wall order.
+ */
+export const byStackOrder = (photos: PhotoData[]): PhotoData[] =>
+  photos.map((photo, index) => ({ photo, index }))
+    .sort((a, b) => zOf(a.photo) - zOf(b.photo) || a.index - b.index)
+    .map(({ photo }) => photo);
+
+/**
+ * The z-index for a photo placed on top of everything else.
+ */
+export const topZIndex = (photos: PhotoData[]): number =>
+  photos.reduce((max, photo) => Math.max(max, zOf(photo)), 0) + 1;
+
+// Renumbers the stack 1..n in the given order, touching only photos whose z-index changes
+const restack = (photos: PhotoData[], order: PhotoData[]): PhotoData[] => {
+  const zById = new Map(order.map((photo, index) => [photo.id, index + 1]));
+  return photos.map(photo => {
+    const zIndex = zById.get(photo.id);
+    return zIndex === undefined || zIndex === photo.zIndex ? photo : { ...photo, zIndex };
+  });
+};
+
+/**
+ * Moves the given photos above all others, keeping their order among themselves.
+ */
+export const bringToFront = (photos: PhotoData[], ids: Set<string>): PhotoData[] => {
+  const stack = byStackOrder(photos);
+  return restack(photos, [...stack.filter(p => !ids.has(p.id)), ...stack.filter(p => ids.has(p.id))]);
+};
+
+/**
+ * Moves the given photos below all others, keeping their order among themselves.
+ */
+export const sendToBack = (photos: PhotoData[], ids: Set<string>): PhotoData[] => {
+  const stack = byStackOrder(photos);
+  return restack(photos, [...stack.filter(p => ids.has(p.id)), ...stack.filter(p => !ids.has(p.id))]);
+};
+
+/**
+ * Size of a photo's card on the wall.
+ */
+export const cardSize = (photo: PhotoData): { width: number, height: number } =>
+  photo.kind === 'strip'
+    ? { width: STRIP_CARD_WIDTH, height: STRIP_CARD_HEIGHT }
+    : { width: CARD_WIDTH, height: CARD_HEIGHT };
+
+/**
+ * The area covered by a card at its wall position (ignoring its slight tilt).
+ */
+export const cardRect = (photo: PhotoData): Rect => ({
+  x: photo.position.x,
+  y: photo.position.y,
+  ...cardSize(photo),
+});
+
+export const rectsIntersect = (a: Rect, b: Rect): boolean =>
+  a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height;
+
+/**
+ * The smallest rectangle containing every card.
+ */
+export const boundingRect = (photos: PhotoData[]): Rect => {
+  const minX = Math.min(...photos.map(p => p.position.x));
+  const minY = Math.min(...photos.map(p => p.position.y));
+  const maxX = Math.max(...photos.map(p => p.position.x + cardSize(p).width));
+  const maxY = Math.max(...photos.map(p => p.position.y + cardSize(p).height));
+  return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+};
+
+/**
+ * The smallest rectangle containing both.
+ */
+export const unionRect = (a: Rect, b: Rect): Rect => {
+  const x = Math.min(a.x, b.x);
+  const y = Math.min(a.y, b.y);
+  return {
+    x,
+    y,
+    width: Math.max(a.x + a.width, b.x + b.width) - x,
+    height: Math.max(a.y + a.height, b.y + b.height) - y,
+  };
+};
+
+// Fills rows left to right, each row as tall as its tallest card
+const gridPositions = (photos: PhotoData[], origin: Position, maxWidth: number): Position[] => {
+  const positions: Position[] = [];
+  let x = 0;
+  let y = 0;
+  let rowHeight = 0;
+  for (const photo of photos) {
+    const { width, height } = cardSize(photo);
+    if (x > 0 && x + width > maxWidth) {
+      x = 0;
+      y += rowHeight + GAP;
+      rowHeight = 0;
+    }
+    positions.push({ x: origin.x + x, y: origin.y + y });
+    x += width + GAP;
+    rowHeight = Math.max(rowHeight, height);
+  }
+  return positions;
+};
+
+/**
+ * Lays photos out automatically, starting from where they currently sit.
+ * - grid: straight rows in stacking order
+ * - pile: a loose, tilted heap around their current centre
+ * - timeline: rows sorted by when each photo was taken, oldest first
+ * @param photos The photos to arrange.
+ * @param layout Which arrangement to use.
+ * @param maxWidth How wide rows may grow, usually the viewport width.
+ * @returns The arranged photos with new positions, rotations and stacking.
+ */
+export const arrangePhotos = (photos: PhotoData[], layout: ArrangeLayout, maxWidth: number): PhotoData[] => {
+  if (photos.length === 0) return photos;
+  const bounds = boundingRect(photos);
+  const baseZ = Math.min(...photos.map(zOf));
+
+  if (layout === 'pile') {
+    const centre = { x: bounds.x + bounds.width / 2, y: bounds.y + bounds.height / 2 };
+    return byStackOrder(photos).map((photo, i) => ({
+      ...photo,
+      position: {
+        x: centre.x - cardSize(photo).width / 2 + (Math.random() - 0.5) * 80,
+        y: centre.y - cardSize(photo).height / 2 + (Math.random() - 0.5) * 80,
+      },
+      rotation: (Math.random() - 0.5) * 24,
+      zIndex: baseZ + i,
+    }));
+  }
+
+  const ordered = layout === 'timeline'
+    ? [...photos].sort((a, b) => a.timestamp - b.timestamp)
+    : byStackOrder(photos);
+  const positions = gridPositions(ordered, { x: bounds.x, y: bounds.y }, maxWidth - bounds.x);
+
+  return ordered.map((photo, i) => ({
+    ...photo,
+    // Timeline staggers up and down like pins along a string
+    position: layout === 'timeline' ? { x: positions[i].x, y: positions[i].y + (i % 2 ? GAP / 2 : 0) } : positions[i],
+    rotation: layout === 'timeline' ? (i % 2 ? 2 : -2) : 0,
+    zIndex: baseZ + i,
+  }));
+};
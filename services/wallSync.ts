@@ -0,0 +1,120 @@
+import { PhotoData } from '../types';
+import { diffPhotos } from './history';
+import { PhotoClock, Resolution, SyncOp, SyncedPhoto, Stamp, opPhotoId, resolveOp, toSharedPhoto } from './syncProtocol';
+
+// This tab's side of a shared wall: its Lamport clock and what it knows about every photo
+export interface SyncReplica {
+  clientId: string;
+  clock: number;
+  photos: Map<string, PhotoClock>;
+}
+
+export const createReplica = (clientId: string): SyncReplica => ({ clientId, clock: 0, photos: new Map() });
+
+const nextStamp = (replica: SyncReplica): Stamp => ({ clock: ++replica.clock, clientId: replica.clientId });
+
+// Records an op this replica made itself, so older ones arriving later lose to it
+const recordOwnOp = (replica: SyncReplica, op: SyncOp) => {
+  const id = opPhotoId(op);
+  replica.photos.set(id, resolveOp(replica.photos.get(id), op.kind !== 'put', op)[0]);
+};
+
+/**
+ * The photos that take part in sharing: those hanging on the wall, not the
+ * ones still sitting on the camera.
+ */
+export const sharedPhotosOf = (photos: PhotoData[], wallId: string): PhotoData[] =>
+  photos.filter(photo => photo.wallId === wallId && !photo.isStaged);
+
+/**
+ * Applies what an op resolved to. Photos arriving from others hang on the given wall.
+ */
+export const applyResolution = (photos: PhotoData[], id: string, resolution: Resolution, wallId: string): PhotoData[] => {
+  switch (resolution.effect) {
+    case 'put':
+      return [...photos.filter(photo => photo.id !== id), { ...resolution.photo, wallId, isStaged: false }];
+    case 'update':
+      return photos.map(photo => (photo.id === id ? { ...photo, ...resolution.fields } : photo));
+    case 'delete':
+      return photos.filter(photo => photo.id !== id);
+    default:
+      return photos;
+  }
+};
+
+/**
+ * Merges someone else's op into the replica.
+ * @param wall The shared wall as this replica last saw it.
+ * @returns What to do to the wall.
+ */
+export const receiveOp = (replica: SyncReplica, wall: PhotoData[], op: SyncOp): Resolution => {
+  replica.clock = Math.max(replica.clock, op.stamp.clock);
+  const id = opPhotoId(op);
+  const [clock, resolution] = resolveOp(replica.photos.get(id), wall.some(photo => photo.id === id), op);
+  replica.photos.set(id, clock);
+  return resolution;
+};
+
+/**
+ * Turns local edits to the shared wall into stamped ops for everyone else.
+ * Fields that stay on this device (which wall, staged) are never sent.
+ * @param previous The shared wall as last sent or received.
+ * @param next The shared wall now.
+ */
+export const localOps = (replica: SyncReplica, previous: PhotoData[], next: PhotoData[]): SyncOp[] => {
+  const ops: SyncOp[] = [];
+  for (const change of diffPhotos(previous, next)) {
+    let op: SyncOp;
+    if (change.type === 'add') {
+      op = { kind: 'put', photo: toSharedPhoto(change.photo), stamp: nextStamp(replica) };
+    } else if (change.type === 'delete') {
+      op = { kind: 'delete', id: change.photo.id, stamp: nextStamp(replica) };
+    } else {
+      const { wallId, isStaged, ...fields } = change.after;
+      if (Object.keys(fields).length === 0) continue;
+      op = { kind: 'update', id: change.id, fields, stamp: nextStamp(replica) };
+    }
+    recordOwnOp(replica, op);
+    ops.push(op);
+  }
+  return ops;
+};
+
+/**
+ * Rebuilds the shared wall from the room's snapshot after (re)joining.
+ * Ops made while offline are replayed on top, and photos only this tab has
+ * are offered to the room, unless someone deleted them in the meantime.
+ * @param local The shared wall as this tab has it.
+ * @param pending Ops still waiting to go out.
+ * @returns The wall to show, and the ops announcing photos the room hasn't seen.
+ */
+export const mergeSnapshot = (
+  replica: SyncReplica,
+  snapshot: { photos: SyncedPhoto[]; tombstones: Record<string, Stamp>; clock: number },
+  local: PhotoData[],
+  pending: SyncOp[],
+  wallId: string
+): { photos: PhotoData[]; ops: SyncOp[] } => {
+  replica.clock = Math.max(replica.clock, snapshot.clock);
+  replica.photos = new Map(snapshot.photos.map(({ photo, clock }) => [photo.id, clock]));
+  for (const [id, stamp] of Object.entries(snapshot.tombstones)) {
+    replica.photos.set(id, { fields: {}, deleted: stamp });
+  }
+
+  let photos = snapshot.photos.map(({ photo }) => ({ ...photo, wallId, isStaged: false }) as PhotoData);
+  for (const op of pending) {
+    photos = applyResolution(photos, opPhotoId(op), receiveOp(replica, photos, op), wallId);
+  }
+
+  const pendingIds = new Set(pending.map(opPhotoId));
+  const ops: SyncOp[] = [];
+  for (const photo of local) {
+    if (photos.some(known => known.id === photo.id)) continue;
+    if (pendingIds.has(photo.id) || replica.photos.get(photo.id)?.deleted) continue;
+    const op: SyncOp = { kind: 'put', photo: toSharedPhoto(photo), stamp: nextStamp(replica) };
+    recordOwnOp(replica, op);
+    photos.push(photo);
+    ops.push(op);
+  }
+  return { photos, ops };
+};
@@ -0,0 +1,129 @@
+import { Position } from '../types';
+import { Rect } from './wallLayout';
+
+// How the wall is shown on screen: screen = wall * scale + offset
+export interface WallViewport {
+  x: number;
+  y: number;
+  scale: number;
+}
+
+export const MIN_ZOOM = 0.25;
+export const MAX_ZOOM = 3;
+
+// Below this width the layout switches to its phone arrangement
+export const COMPACT_BREAKPOINT = 768;
+
+// Multiplier for one step of the zoom buttons or +/- keys
+export const ZOOM_STEP = 1.25;
+
+const VIEWPORTS_KEY = 'bao-retro-camera:viewports';
+
+const clampZoom = (scale: number) => Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, scale));
+
+/**
+ * The starting view for a screen: full size on desktops, zoomed out on
+ * phones so a card doesn't fill most of the screen.
+ */
+export const initialViewport = (screenWidth: number): WallViewport => ({
+  x: 0,
+  y: 0,
+  scale: Math.max(0.5, Math.min(1, screenWidth / COMPACT_BREAKPOINT)),
+});
+
+// Where each wall was last looked at, by wall id
+export const loadViewports = (): Record<string, WallViewport> => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(VIEWPORTS_KEY) ?? '{}');
+    return saved && typeof saved === 'object' ? saved : {};
+  } catch {
+    return {};
+  }
+};
+
+export const saveViewports = (viewports: Record<string, WallViewport>) => {
+  localStorage.setItem(VIEWPORTS_KEY, JSON.stringify(viewports));
+};
+
+export const screenToWall = (viewport: WallViewport, point: Position): Position => ({
+  x: (point.x - viewport.x) / viewport.scale,
+  y: (point.y - viewport.y) / viewport.scale,
+});
+
+export const wallToScreen = (viewport: WallViewport, point: Position): Position => ({
+  x: point.x * viewport.scale + viewport.x,
+  y: point.y * viewport.scale + viewport.y,
+});
+
+/**
+ * Converts a rectangle drawn on screen (e.g. a marquee) into wall coordinates.
+ */
+export const screenRectToWall = (viewport: WallViewport, rect: Rect): Rect => {
+  const { x, y } = screenToWall(viewport, rect);
+  return { x, y, width: rect.width / viewport.scale, height: rect.height / viewport.scale };
+};
+
+/**
+ * Zooms by a factor while keeping the wall point under `anchor` where it is on screen.
+ * @param anchor The screen point to zoom around, e.g. the cursor or the middle of a pinch.
+ */
+export const zoomAt = (viewport: WallViewport, factor: number, anchor: Position): WallViewport => {
+  const scale = clampZoom(viewport.scale * factor);
+  const wallPoint = screenToWall(viewport, anchor);
+  return { scale, x: anchor.x - wallPoint.x * scale, y: anchor.y - wallPoint.y * scale };
+};
+
+export const panBy = (viewport: WallViewport, delta: Position): WallViewport => ({
+  ...viewport,
+  x: viewport.x + delta.x,
+  y: viewport.y + delta.y,
+});
+
+/**
+ * Follows a two-finger gesture: the wall point under the fingers' first
+ * midpoint stays under their current midpoint, and the zoom changes with their spread.
+ * @param start The viewport when the second finger touched down.
+ * @param from The two touch points at that moment.
+ * @param to The two touch points now.
+ */
+export const pinch = (start: WallViewport, from: [Position, Position], to: [Position, Position]): WallViewport => {
+  const distance = ([a, b]: [Position, Position]) => Math.hypot(a.x - b.x, a.y - b.y) || 1;
+  const midpoint = ([a, b]: [Position, Position]): Position => ({ x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 });
+
+  const scale = clampZoom(start.scale * distance(to) / distance(from));
+  const wallPoint = screenToWall(start, midpoint(from));
+  const mid = midpoint(to);
+  return { scale, x: mid.x - wallPoint.x * scale, y: mid.y - wallPoint.y * scale };
+};
+
+/**
+ * The part of the wall currently on screen.
+ * @param screen Size of the window the wall fills.
+ */
+export const visibleWallRect = (viewport: WallViewport, screen: { width: number, height: number }): Rect =>
+  screenRectToWall(viewport, { x: 0, y: 0, ...screen });
+
+/**
+ * Centres a wall area on screen, zoomed out as far as needed to show all of it
+ * but never enlarged past full size.
+ * @param area The wall area to show, e.g. the bounds of every card.
+ * @param screen Size of the window the wall fills.
+ * @param margin Space to keep clear around the area, in screen pixels.
+ */
+export const fitViewport = (area: Rect, screen: { width: number, height: number }, margin: number = 64): WallViewport => {
+  const scale = clampZoom(Math.min(
+    1,
+    (screen.width - margin * 2) / Math.max(area.width, 1),
+    (screen.height - margin * 2) / Math.max(area.height, 1)
+  ));
+  return centreOn({ x: area.x + area.width / 2, y: area.y + area.height / 2 }, scale, screen);
+};
+
+/**
+ * Puts a wall point in the middle of the screen at the given zoom.
+ */
+export const centreOn = (point: Position, scale: number, screen: { width: number, height: number }): WallViewport => ({
+  scale,
+  x: screen.width / 2 - point.x * scale,
+  y: screen.height / 2 - point.y * scale,
+});
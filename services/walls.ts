@@ -0,0 +1,93 @@
+import { PhotoData, WallBackgroundId, WallData } from '../types';
+import { generateId } from './ids';
+import { topZIndex } from './wallLayout';
+
+export const WALL_BACKGROUNDS: { id: WallBackgroundId; label: string; background: string; isDark: boolean }[] = [
+  { id: 'cream', label: 'Cream', background: '#fdf6e3', isDark: false },
+  { id: 'cork', label: 'Corkboard', background: 'radial-gradient(rgba(90, 60, 20, 0.25) 1px, transparent 1.5px) 0 0 / 6px 6px, #c9a06a', isDark: false },
+  { id: 'chalkboard', label: 'Chalkboard', background: 'radial-gradient(ellipse at center, #3b4a3f 0%, #243028 100%)', isDark: true },
+  { id: 'graph', label: 'Graph paper', background: 'linear-gradient(#dbe7f3 1px, transparent 1px) 0 0 / 24px 24px, linear-gradient(90deg, #dbe7f3 1px, transparent 1px) 0 0 / 24px 24px, #fbfdff', isDark: false },
+  { id: 'night', label: 'Night', background: '#1f2430', isDark: true },
+];
+
+export const DEFAULT_WALL_BACKGROUND: WallBackgroundId = 'cream';
+export const DEFAULT_WALL_NAME = 'My wall';
+
+const ACTIVE_WALL_KEY = 'bao-retro-camera:active-wall';
+
+export const getWallBackground = (id?: WallBackgroundId) =>
+  WALL_BACKGROUNDS.find(b => b.id === id) ?? WALL_BACKGROUNDS[0];
+
+export const createWall = (name: string, background: WallBackgroundId = DEFAULT_WALL_BACKGROUND): WallData => ({
+  id: generateId(),
+  name: name.trim() || DEFAULT_WALL_NAME,
+  createdAt: Date.now(),
+  background,
+});
+
+export const loadActiveWallId = (): string | null => localStorage.getItem(ACTIVE_WALL_KEY);
+
+export const saveActiveWallId = (id: string) => {
+  localStorage.setItem(ACTIVE_WALL_KEY, id);
+};
+
+/**
+ * The photo shown for a wall in the switcher.
+ * @param photos Every photo, on any wall.
+ */
+export const wallCover = (wall: WallData, photos: PhotoData[]): PhotoData | undefined => {
+  const onWall = photos.filter(p => p.wallId === wall.id);
+  return onWall.find(p => p.id === wall.coverPhotoId) ?? onWall[0];
+};
+
+/**
+ * Hangs photos that don't belong to a known wall (saved before walls existed,
+ * or brought back by undo after their wall was removed) on the given wall.
+ */
+export const adoptOrphans = (photos: PhotoData[], walls: WallData[], fallbackWallId: string): PhotoData[] => {
+  const known = new Set(walls.map(wall => wall.id));
+  return photos.map(photo => photo.isStaged || (photo.wallId && known.has(photo.wallId))
+    ? photo
+    : { ...photo, wallId: fallbackWallId });
+};
+
+/**
+ * Moves or copies photos onto another wall, on top of whatever hangs there.
+ * Copies get new ids and keep everything else, including their position.
+ * @param photos Every photo, on any wall.
+ * @param ids The photos to send.
+ * @param wallId The wall to send them to.
+ * @param copy Leave the originals where they are.
+ */
+export const sendToWall = (photos: PhotoData[], ids: Set<string>, wallId: string, copy: boolean): PhotoData[] => {
+  let zIndex = topZIndex(photos.filter(p => p.wallId === wallId));
+  const sent = photos.filter(p => ids.has(p.id) && p.wallId !== wallId).map(photo => ({
+    ...photo,
+    id: copy ? generateId() : photo.id,
+    wallId,
+    zIndex: zIndex++,
+    // The copy's caption request, if any, belongs to the original
+    ...(copy && photo.captionStatus === 'pending' && { captionStatus: 'failed' as const, captionError: 'cancelled' as const }),
+  }));
+  if (copy) return [...photos, ...sent];
+
+  const moved = new Map(sent.map(photo => [photo.id, photo]));
+  return photos.map(photo => moved.get(photo.id) ?? photo);
+};
+
+/**
+ * Hangs a set of photos (e.g. just imported) on a wall, giving a fresh id to
+ * any that clash with photos already hanging elsewhere.
+ * @param photos The photos for the wall.
+ * @param wallId The wall they belong to.
+ * @param elsewhere Photos on every other wall.
+ */
+export const hangOnWall = (photos: PhotoData[], wallId: string, elsewhere: PhotoData[]): PhotoData[] => {
+  const taken = new Set(elsewhere.map(photo => photo.id));
+  return photos.map(photo => {
+    let id = photo.id;
+    while (taken.has(id)) id = generateId();
+    taken.add(id);
+    return id === photo.id && photo.wallId === wallId ? photo : { ...photo, id, wallId };
+  });
+};
@@ -0,0 +1,23 @@
+import { describe, it, expect } from 'vitest';
+import { sanitizeAnnotations } from '../services/annotations';
+
+describe('sanitizeAnnotations', () => {
+  it('keeps doodles, stickers and notes, trimmed to their limits', () => {
+    const [doodle, sticker, note] = sanitizeAnnotations([
+      { id: 'd', type: 'doodle', color: '#dc2626', width: 0.01, points: [{ x: 0.1, y: 0.2, pressure: 1 }] },
+      { id: 's', type: 'sticker', emoji: '⭐', position: { x: 0.5, y: 0.5 }, size: 0.16 },
+      { id: 'n', type: 'note', text: 'x'.repeat(100), color: '#1f2937', position: { x: 0.2, y: 0.8 }, size: 0.07, rotation: 12 },
+    ]) ?? [];
+    expect(doodle).toEqual({ id: 'd', type: 'doodle', color: '#dc2626', width: 0.01, points: [{ x: 0.1, y: 0.2 }] });
+    expect(sticker).toMatchObject({ type: 'sticker', rotation: 0 });
+    expect(note).toMatchObject({ type: 'note', rotation: 12 });
+    expect(note?.type === 'note' && note.text).toHaveLength(60);
+  });
+
+  it('turns down the whole list when any annotation is unreadable', () => {
+    expect(sanitizeAnnotations([{ id: 'd', type: 'doodle', color: 'red', width: 0.01, points: [{ x: 0, y: 0 }] }])).toBeUndefined();
+    expect(sanitizeAnnotations([{ id: 's', type: 'sticker', emoji: '⭐', position: null, size: 0.1 }])).toBeUndefined();
+    expect(sanitizeAnnotations([null])).toBeUndefined();
+    expect(sanitizeAnnotations({ id: 'n' })).toBeUndefined();
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { captureFrame, captureSize } from '../services/cameraService';
+import { drawnImages } from './fakeCanvas';
+import { FakeMediaStream, installFakeCamera } from './fakeCamera';
+
+installFakeCamera();
+
+const videoOf = (width: number, height: number) => {
+  const video = document.createElement('video');
+  video.srcObject = new FakeMediaStream(width, height) as unknown as MediaStream;
+  return video;
+};
+
+// The crop rectangle read from the source, as [x, y, width, height]
+const cropOf = (canvas: HTMLCanvasElement) => {
+  const call = drawnImages.find(draw => draw.canvas === canvas);
+  return call?.args.slice(0, 4);
+};
+
+describe('captureSize', () => {
+  it('puts the long edge on the longer side', () => {
+    expect(captureSize('3:4', 'standard')).toEqual({ width: 600, height: 800 });
+    expect(captureSize('4:3', 'high')).toEqual({ width: 1600, height: 1200 });
+    expect(captureSize('1:1', 'max')).toEqual({ width: 2400, height: 2400 });
+  });
+});
+
+describe('captureFrame', () => {
+  it('crops the sides of a wide video for a portrait photo', () => {
+    const frame = captureFrame(videoOf(1280, 720), 600, 800);
+    expect(frame.width).toBe(600);
+    expect(frame.height).toBe(800);
+    // 720 tall at 3:4 is 540 wide, centred in 1280
+    expect(cropOf(frame)).toEqual([370, 0, 540, 720]);
+  });
+
+  it('crops the top and bottom of a tall source for a landscape photo', () => {
+    const frame = captureFrame(videoOf(720, 1280), 800, 600);
+    // 720 wide at 4:3 is 540 tall, centred in 1280
+    expect(cropOf(frame)).toEqual([0, 370, 720, 540]);
+  });
+
+  it('takes the whole source when the shapes already match', () => {
+    const frame = captureFrame(videoOf(1200, 1600), 600, 800);
+    expect(cropOf(frame)).toEqual([0, 0, 1200, 1600]);
+  });
+
+  it('fills the whole output canvas', () => {
+    const frame = captureFrame(videoOf(1920, 1080), 800, 800);
+    const call = drawnImages.find(draw => draw.canvas === frame);
+    expect(call?.args.slice(4)).toEqual([0, 0, 800, 800]);
+    expect(cropOf(frame)).toEqual([420, 0, 1080, 1080]);
+  });
+
+  it('crops decoded uploads by their own size', () => {
+    const bitmap = { width: 4000, height: 3000, close: () => {} } as unknown as ImageBitmap;
+    const frame = captureFrame(bitmap, 600, 800);
+    expect(cropOf(frame)).toEqual([875, 0, 2250, 3000]);
+  });
+});
@@ -0,0 +1,144 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createServer, request, Server } from 'http';
+import { AddressInfo } from 'net';
+import { CaptionProvider } from '../types';
+import { CaptionError } from '../services/captionErrors';
+import { createCaptionHandlers, createRateLimiter, CaptionEndpointLimits, DEFAULT_CAPTION_LIMITS } from '../server/captionEndpoint';
+
+// The real Gemini client never loads here; every test brings its own provider
+vi.mock('../services/geminiService', () => ({ createGeminiCaptionProvider: vi.fn() }));
+
+const IMAGE = `data:image/png;base64,${btoa('a tiny photo')}`;
+
+const fakeProvider = (): CaptionProvider => ({
+  id: 'fake',
+  generateCaption: vi.fn(async (_image, style, _signal, language) => ({ caption: `A ${style} caption (${language})` })),
+  translateCaption: vi.fn(async (text, language) => `[${language}] ${text}`),
+});
+
+let server: Server | null = null;
+
+afterEach(() => new Promise<void>(resolve => {
+  vi.restoreAllMocks();
+  if (server) server.close(() => resolve());
+  else resolve();
+  server = null;
+}));
+
+// Serves both routes on a free port and posts to them like the browser does
+const startEndpoint = async (provider: CaptionProvider, limits: Partial<CaptionEndpointLimits> = {}) => {
+  const handlers = createCaptionHandlers(provider, { ...DEFAULT_CAPTION_LIMITS, ...limits });
+  server = createServer((req, res) => void (req.url === '/translate' ? handlers.translate : handlers.caption)(req, res));
+  await new Promise<void>(resolve => server!.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return async (route: 'caption' | 'translate', body: unknown, init: RequestInit = {}) => {
+    const response = await fetch(`http://127.0.0.1:${port}/${route}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: typeof body === 'string' ? body : JSON.stringify(body),
+      ...init,
+    });
+    return { status: response.status, headers: response.headers, body: await response.json() };
+  };
+};
+
+// Streams a body of the given size without announcing its length, as chunked uploads do
+const postChunked = (bytes: number) => new Promise<{ status?: number; connection?: string; body: unknown }>((resolve, reject) => {
+  const { port } = server!.address() as AddressInfo;
+  const req = request({ host: '127.0.0.1', port, path: '/caption', method: 'POST', headers: { 'Content-Type': 'application/json' } }, (res) => {
+    let body = '';
+    res.on('data', (chunk) => { body += chunk; });
+    res.on('end', () => resolve({ status: res.statusCode, connection: res.headers.connection, body: JSON.parse(body) }));
+  });
+  req.on('error', reject);
+  for (let sent = 0; sent < bytes; sent += 1024) req.write('x'.repeat(1024));
+  req.end();
+});
+
+describe('caption endpoint', () => {
+  it('captions a photo in the style and language asked for', async () => {
+    const post = await startEndpoint(fakeProvider());
+    expect(await post('caption', { image: IMAGE, style: 'warm', language: 'fr-FR' }))
+      .toMatchObject({ status: 200, body: { caption: 'A warm caption (fr-FR)' } });
+    expect(await post('caption', { image: IMAGE, style: 'warm' })).toMatchObject({ body: { caption: 'A warm caption (en-US)' } });
+    expect(await post('translate', { text: 'Sunny day', language: 'de' })).toMatchObject({ status: 200, body: { text: '[de] Sunny day' } });
+  });
+
+  it('turns down malformed requests with 400 before asking the model', async () => {
+    const provider = fakeProvider();
+    const post = await startEndpoint(provider);
+    for (const body of ['{', '["warm"]', { image: 'not a photo', style: 'warm' }, { image: IMAGE, style: 'shouty' },
+      { image: IMAGE, style: 'warm', language: 'French, please' }]) {
+      expect(await post('caption', body)).toMatchObject({ status: 400, body: { error: 'unknown' } });
+    }
+    expect(await post('translate', { text: 'x'.repeat(501) })).toMatchObject({ status: 400 });
+    expect(provider.generateCaption).not.toHaveBeenCalled();
+    expect(provider.translateCaption).not.toHaveBeenCalled();
+    expect(await post('caption', undefined, { method: 'GET', body: undefined })).toMatchObject({ status: 405 });
+  });
+
+  it('answers 501 for translations when the provider has no translator', async () => {
+    const { translateCaption, ...captionOnly } = fakeProvider();
+    const post = await startEndpoint(captionOnly);
+    expect(await post('translate', { text: 'Sunny day', language: 'de' }))
+      .toMatchObject({ status: 501, body: { error: 'unknown', message: expect.stringContaining("can't translate") } });
+  });
+
+  it('answers each caption failure with its own status', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const provider = fakeProvider();
+    const post = await startEndpoint(provider);
+    const statuses = { rate_limited: 429, auth: 502, missing_key: 503, timeout: 504, network: 502, unknown: 502 };
+    for (const [kind, status] of Object.entries(statuses)) {
+      vi.mocked(provider.generateCaption).mockRejectedValueOnce(new CaptionError(kind as keyof typeof statuses, 'Nope'));
+      expect(await post('caption', { image: IMAGE, style: 'warm' })).toEqual(expect.objectContaining({
+        status,
+        body: { error: kind, message: 'Nope' },
+      }));
+    }
+  });
+
+  it('turns away photos over the size limit', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const provider = fakeProvider();
+    const post = await startEndpoint(provider, { maxImageBytes: 1024 });
+    const photo = (bytes: number) => `data:image/png;base64,${btoa('x'.repeat(bytes))}`;
+
+    // Decoded size over the limit, though the request itself fits
+    expect(await post('caption', { image: photo(2048), style: 'warm' })).toMatchObject({ status: 413, body: { error: 'too_large' } });
+    // A request too big to read at all
+    expect(await post('caption', { image: photo(8192), style: 'warm' })).toMatchObject({ status: 413, body: { error: 'too_large' } });
+    expect(provider.generateCaption).not.toHaveBeenCalled();
+    expect(await post('caption', { image: photo(512), style: 'warm' })).toMatchObject({ status: 200 });
+  });
+
+  it('answers an oversized chunked upload with 413 rather than dropping it', async () => {
+    const provider = fakeProvider();
+    await startEndpoint(provider, { maxImageBytes: 1024 });
+    expect(await postChunked(64 * 1024)).toEqual({ status: 413, connection: 'close', body: expect.objectContaining({ error: 'too_large' }) });
+    expect(provider.generateCaption).not.toHaveBeenCalled();
+  });
+
+  it('rate limits each address across both routes', async () => {
+    const post = await startEndpoint(fakeProvider(), { requestsPerMinute: 2 });
+    await post('caption', { image: IMAGE, style: 'warm' });
+    await post('translate', { text: 'Sunny day' });
+
+    const limited = await post('caption', { image: IMAGE, style: 'warm' });
+    expect(limited).toMatchObject({ status: 429, body: { error: 'rate_limited' } });
+    expect(Number(limited.headers.get('Retry-After'))).toBeGreaterThan(0);
+  });
+});
+
+describe('createRateLimiter', () => {
+  it('lets requests through again as the minute slides on', () => {
+    const check = createRateLimiter(2);
+    expect(check('a', 0)).toBe(0);
+    expect(check('a', 20_000)).toBe(0);
+    expect(check('a', 30_000)).toBe(30_000);
+    expect(check('b', 30_000)).toBe(0);
+    expect(check('a', 60_000)).toBe(0);
+    expect(check('a', 70_000)).toBe(10_000);
+  });
+});
@@ -0,0 +1,26 @@
+import { describe, it, expect } from 'vitest';
+import { parseCaptionResponse } from '../services/captionTags';
+
+describe('parseCaptionResponse', () => {
+  it('reads a caption and its tags, even inside a code fence', () => {
+    const reply = '```json\n{"caption": " Salt in the air ", "tags": {"peopleCount": "2", "setting": "Beach", "mood": "calm", "objects": ["Kite", "kite"]}}\n```';
+    expect(parseCaptionResponse(reply)).toEqual({
+      caption: 'Salt in the air',
+      tags: { peopleCount: 2, setting: 'beach', mood: 'calm', objects: ['kite'] },
+    });
+  });
+
+  it('keeps the caption when the tags are unusable', () => {
+    expect(parseCaptionResponse('{"caption": "Just us", "tags": ["beach"]}')).toEqual({ caption: 'Just us', tags: undefined });
+  });
+
+  it('takes a reply that isn\'t JSON as a plain caption', () => {
+    expect(parseCaptionResponse('Golden hour, golden hearts')).toEqual({ caption: 'Golden hour, golden hearts' });
+  });
+
+  it('rejects replies with no caption to show', () => {
+    expect(() => parseCaptionResponse('{"caption": ')).toThrow('malformed JSON');
+    expect(() => parseCaptionResponse('["Just us"]')).toThrow('no caption');
+    expect(() => parseCaptionResponse('{"caption": 42}')).toThrow('no caption');
+  });
+});
@@ -0,0 +1,217 @@
+import React from 'react';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent, act, waitFor } from '@testing-library/react';
+import { PhotoData, WallData } from '../types';
+import { DEFAULT_CAPTION_STYLE } from '../services/captionStyles';
+import { initialViewport, screenToWall } from '../services/wallViewport';
+import { installFakeCamera } from './fakeCamera';
+import { drawnImages } from './fakeCanvas';
+import { pendingCaptions, answerCaption, resetCaptions, requestCaption } from './fakeCaptions';
+
+// The camera-to-wall flow through the whole app: a fake camera feeds the
+// viewfinder, captions come from the stub, and storage is kept in memory.
+
+vi.mock('../services/captionService', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../services/captionService')>()),
+  requestCaption: (await import('./fakeCaptions')).requestCaption,
+}));
+
+const storage = vi.hoisted(() => ({
+  walls: [] as WallData[],
+  photos: [] as PhotoData[], // As last saved
+}));
+
+vi.mock('../services/photoStorage', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../services/photoStorage')>()),
+  loadWalls: async () => storage.walls,
+  loadPhotos: async () => [],
+  saveWalls: async () => {},
+  syncPhotos: async (_previous: PhotoData[], next: PhotoData[]) => { storage.photos = next; },
+}));
+
+import App from '../App';
+
+const HOME: WallData = { id: 'home', name: 'Home', createdAt: 1, background: 'cream' };
+const HOLIDAY: WallData = { id: 'holiday', name: 'Holiday', createdAt: 2, background: 'cork' };
+
+const renderApp = async () => {
+  render(<App />);
+  const shutter = await screen.findByRole('button', { name: 'Take photo' });
+  // Ready once the camera is open and the saved walls are back
+  await waitFor(() => {
+    expect(screen.queryByText('Loading...')).toBeNull();
+    expect(screen.getByRole('region', { name: /^Home wall/ })).toBeTruthy();
+  });
+  return shutter;
+};
+
+const FLASH_MS = 200; // The shutter takes the next photo once the flash (150 ms) is over
+
+const takePhoto = async (shutter: HTMLElement) => {
+  const before = pendingCaptions.length;
+  await act(async () => { fireEvent.click(shutter); });
+  expect(pendingCaptions).toHaveLength(before + 1);
+  await act(() => new Promise(resolve => setTimeout(resolve, FLASH_MS)));
+  return pendingCaptions[pendingCaptions.length - 1];
+};
+
+const stagedCards = () => screen.queryAllByLabelText(/In the camera/);
+
+// Enter on a staged card puts it on the wall, like dragging it there
+const dropOnWall = (card: HTMLElement) => fireEvent.keyDown(card, { key: 'Enter' });
+
+const wallCard = (caption: string) => screen.getByLabelText(new RegExp(`^Photo: ${caption}\\. Taken [^.]+\\.$`));
+
+const saved = (id?: string) => storage.photos.find(p => p.id === id);
+
+describe('capture to wall', () => {
+  beforeEach(() => {
+    storage.walls = [HOME, HOLIDAY];
+    storage.photos = [];
+    resetCaptions();
+    installFakeCamera({ width: 1280, height: 720 });
+  });
+
+  it('takes a centre-cropped photo into the camera and asks for its caption', async () => {
+    const shutter = await renderApp();
+    const request = await takePhoto(shutter);
+
+    // A 16:9 viewfinder cropped to the default 3:4 portrait, 600×800
+    const shot = drawnImages.find(draw => draw.source instanceof HTMLVideoElement);
+    expect(shot?.args).toEqual([370, 0, 540, 720, 0, 0, 600, 800]);
+    expect(request.image).toBe(`data:image/png;base64,${btoa('600x800')}`);
+    expect(request.style).toBe(DEFAULT_CAPTION_STYLE);
+    expect(request.options.language).toBe(navigator.language);
+
+    expect(stagedCards()).toHaveLength(1);
+    expect(stagedCards()[0].getAttribute('aria-label')).toMatch(/caption still being written/);
+    // Staged photos aren't on the wall yet
+    expect(storage.photos).toHaveLength(0);
+  });
+
+  it('captions a staged photo and keeps the caption when it is dropped on the wall', async () => {
+    const shutter = await renderApp();
+    const request = await takePhoto(shutter);
+
+    await act(async () => answerCaption(request, 'Sunny day', { peopleCount: 1, setting: 'beach', mood: 'happy', objects: [] }));
+    expect(stagedCards()[0].getAttribute('aria-label')).toMatch(/^Photo: Sunny day\./);
+
+    dropOnWall(stagedCards()[0]);
+
+    expect(stagedCards()).toHaveLength(0);
+    expect(wallCard('Sunny day')).toBeTruthy();
+    await waitFor(() => expect(storage.photos).toHaveLength(1));
+    const [photo] = storage.photos;
+    expect(photo).toMatchObject({
+      caption: 'Sunny day',
+      captionStatus: 'ready',
+      captionLanguage: navigator.language,
+      tags: { setting: 'beach' },
+      isStaged: false,
+      wallId: HOME.id,
+    });
+    // Cards remember where they were let go, in wall coordinates
+    expect(photo.position).toEqual(screenToWall(initialViewport(window.innerWidth), { x: 0, y: 0 }));
+  });
+
+  it('keeps a caption that arrives after the photo was dropped on the wall', async () => {
+    const shutter = await renderApp();
+    const request = await takePhoto(shutter);
+
+    dropOnWall(stagedCards()[0]);
+    await waitFor(() => expect(storage.photos).toHaveLength(1));
+    const id = storage.photos[0].id;
+    expect(saved(id)?.captionStatus).toBe('pending');
+
+    await act(async () => answerCaption(request, 'Late to the party'));
+
+    expect(wallCard('Late to the party')).toBeTruthy();
+    expect(stagedCards()).toHaveLength(0);
+    await waitFor(() => expect(saved(id)).toMatchObject({ caption: 'Late to the party', captionStatus: 'ready', isStaged: false }));
+    expect(storage.photos).toHaveLength(1);
+  });
+
+  it('marks the wall photo when its caption fails after the drop', async () => {
+    const shutter = await renderApp();
+    const request = await takePhoto(shutter);
+
+    dropOnWall(stagedCards()[0]);
+    await act(async () => request.resolve({ status: 'error', error: 'timeout', message: 'Took too long' }));
+
+    expect(screen.getByLabelText(/^Photo, caption failed\./)).toBeTruthy();
+    await waitFor(() => expect(storage.photos[0]).toMatchObject({ captionStatus: 'failed', captionError: 'timeout' }));
+  });
+
+  it('gives each photo its own caption when they arrive out of order', async () => {
+    const shutter = await renderApp();
+    const first = await takePhoto(shutter);
+    const second = await takePhoto(shutter);
+    expect(stagedCards()).toHaveLength(2);
+
+    // The first goes up uncaptioned; the second is still in the camera when both answer, newest first.
+    // Staged cards are in the page newest first, so the oldest is drawn last and sits on top of the stack.
+    const [, oldest] = stagedCards();
+    dropOnWall(oldest);
+    await act(async () => answerCaption(second, 'Second shot'));
+    await act(async () => answerCaption(first, 'First shot'));
+
+    expect(wallCard('First shot')).toBeTruthy();
+    expect(stagedCards()).toHaveLength(1);
+    expect(stagedCards()[0].getAttribute('aria-label')).toMatch(/^Photo: Second shot\./);
+
+    dropOnWall(stagedCards()[0]);
+    expect(wallCard('Second shot')).toBeTruthy();
+    await waitFor(() => expect(storage.photos.map(p => p.caption).sort()).toEqual(['First shot', 'Second shot']));
+  });
+
+  it('follows a photo moved to another wall before its caption arrives', async () => {
+    const shutter = await renderApp();
+    const request = await takePhoto(shutter);
+    dropOnWall(stagedCards()[0]);
+    await waitFor(() => expect(storage.photos).toHaveLength(1));
+    const id = storage.photos[0].id;
+
+    // Space selects a card; the toolbar then offers the other walls
+    fireEvent.keyDown(screen.getByLabelText(/^Photo, caption still being written\./), { key: ' ' });
+    fireEvent.change(screen.getByLabelText('Move or copy to another wall'), { target: { value: `move:${HOLIDAY.id}` } });
+    await waitFor(() => expect(saved(id)?.wallId).toBe(HOLIDAY.id));
+
+    await act(async () => answerCaption(request, 'Postcard'));
+
+    await waitFor(() => expect(saved(id)).toMatchObject({ caption: 'Postcard', captionStatus: 'ready', wallId: HOLIDAY.id }));
+    expect(storage.photos).toHaveLength(1);
+    // It went with the photo, not back onto the wall on show
+    expect(screen.queryByLabelText(/^Photo: Postcard\./)).toBeNull();
+  });
+
+  it('deletes a wall photo and cancels the caption it was waiting for', async () => {
+    const shutter = await renderApp();
+    const request = await takePhoto(shutter);
+    dropOnWall(stagedCards()[0]);
+    await waitFor(() => expect(storage.photos).toHaveLength(1));
+
+    fireEvent.keyDown(screen.getByLabelText(/^Photo, caption still being written\./), { key: 'Delete' });
+
+    expect(request.options.signal?.aborted).toBe(true);
+    expect(screen.queryByLabelText(/^Photo/)).toBeNull();
+    await waitFor(() => expect(storage.photos).toHaveLength(0));
+
+    // A caption that comes back anyway has nothing left to land on
+    await act(async () => answerCaption(request, 'Too late'));
+    expect(screen.queryByLabelText(/Too late/)).toBeNull();
+    expect(storage.photos).toHaveLength(0);
+    expect(requestCaption).toHaveBeenCalledTimes(1);
+  });
+
+  it('deletes a captioned photo from the wall', async () => {
+    const shutter = await renderApp();
+    const request = await takePhoto(shutter);
+    await act(async () => answerCaption(request, 'Keep or toss'));
+    dropOnWall(stagedCards()[0]);
+
+    fireEvent.keyDown(wallCard('Keep or toss'), { key: 'Delete' });
+
+    expect(screen.queryByLabelText(/Keep or toss/)).toBeNull();
+    await waitFor(() => expect(storage.photos).toHaveLength(0));
+  });
+});
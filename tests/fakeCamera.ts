@@ -0,0 +1,73 @@
+import { vi } from 'vitest';
+
+// A camera for jsdom: getUserMedia answers a stream of a chosen size, and a
+// <video> showing it reports that size, as a real viewfinder would once playing.
+
+class FakeTrack {
+  readonly kind = 'video';
+  readonly label: string;
+  readyState: 'live' | 'ended' = 'live';
+  private readonly settings: MediaTrackSettings;
+
+  constructor(label: string, settings: MediaTrackSettings) {
+    this.label = label;
+    this.settings = settings;
+  }
+
+  getSettings = () => this.settings;
+  stop = () => { this.readyState = 'ended'; };
+}
+
+export class FakeMediaStream {
+  readonly id = Math.random().toString(36).slice(2);
+  readonly width: number;
+  readonly height: number;
+  private readonly tracks: FakeTrack[];
+
+  constructor(width: number, height: number, facingMode: string = 'user') {
+    this.width = width;
+    this.height = height;
+    this.tracks = [new FakeTrack('Fake camera', { width, height, facingMode })];
+  }
+
+  getTracks = () => this.tracks;
+  getVideoTracks = () => this.tracks;
+}
+
+export interface FakeCamera {
+  getUserMedia: ReturnType<typeof vi.fn>;
+  streams: FakeMediaStream[]; // Every stream handed out, newest last
+}
+
+/**
+ * Plugs in a camera of the given size; every getUserMedia call opens a new stream from it.
+ */
+export const installFakeCamera = ({ width = 1280, height = 720, facingMode = 'user' } = {}): FakeCamera => {
+  const streams: FakeMediaStream[] = [];
+  const getUserMedia = vi.fn(async () => {
+    const stream = new FakeMediaStream(width, height, facingMode);
+    streams.push(stream);
+    return stream as unknown as MediaStream;
+  });
+  Object.defineProperty(navigator, 'mediaDevices', {
+    configurable: true,
+    value: {
+      getUserMedia,
+      enumerateDevices: async () => [{ kind: 'videoinput', deviceId: 'fake', groupId: 'fake', label: 'Fake camera' }],
+      addEventListener: () => {},
+      removeEventListener: () => {},
+    },
+  });
+
+  const streamOf = (video: HTMLVideoElement) => video.srcObject as unknown as FakeMediaStream | null;
+  Object.defineProperty(HTMLVideoElement.prototype, 'videoWidth', {
+    configurable: true,
+    get(this: HTMLVideoElement) { return streamOf(this)?.width ?? 0; },
+  });
+  Object.defineProperty(HTMLVideoElement.prototype, 'videoHeight', {
+    configurable: true,
+    get(this: HTMLVideoElement) { return streamOf(this)?.height ?? 0; },
+  });
+
+  return { getUserMedia, streams };
+};
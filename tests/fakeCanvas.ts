@@ -0,0 +1,88 @@
+// jsdom has no canvas, so this stands in for one: every 2D context accepts any
+// drawing call, and draws from images and video, and text with where it lands,
+// are recorded for assertions.
+
+export interface DrawImageCall {
+  source: CanvasImageSource;
+  args: number[]; // Everything after the source, e.g. the crop rectangle and its destination
+  canvas: HTMLCanvasElement;
+}
+
+export const drawnImages: DrawImageCall[] = [];
+
+export interface FillTextCall {
+  text: string;
+  x: number; // Where the text is anchored on the canvas, after any transform
+  y: number;
+  canvas: HTMLCanvasElement;
+}
+
+export const drawnTexts: FillTextCall[] = [];
+
+// The current transform as [a, b, c, d, e, f], like setTransform takes it
+type Matrix = [number, number, number, number, number, number];
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+
+const multiply = ([a, b, c, d, e, f]: Matrix, [a2, b2, c2, d2, e2, f2]: Matrix): Matrix =>
+  [a * a2 + c * b2, b * a2 + d * b2, a * c2 + c * d2, b * c2 + d * d2, a * e2 + c * f2 + e, b * e2 + d * f2 + f];
+
+const imageData = (width: number, height: number) =>
+  ({ data: new Uint8ClampedArray(Math.max(1, width * height) * 4), width, height, colorSpace: 'srgb' }) as ImageData;
+
+const gradient = () => ({ addColorStop: () => {} });
+
+const createContext = (canvas: HTMLCanvasElement): CanvasRenderingContext2D => {
+  let transform = IDENTITY;
+  const saved: Matrix[] = [];
+  const transformBy = (matrix: Matrix) => { transform = multiply(transform, matrix); };
+
+  const known: Record<PropertyKey, unknown> = {
+    canvas,
+    drawImage: (source: CanvasImageSource, ...args: number[]) => drawnImages.push({ source, args, canvas }),
+    fillText: (text: string, x: number, y: number) => {
+      const [a, b, c, d, e, f] = transform;
+      drawnTexts.push({ text, x: a * x + c * y + e, y: b * x + d * y + f, canvas });
+    },
+    save: () => saved.push(transform),
+    restore: () => { transform = saved.pop() ?? transform; },
+    translate: (x: number, y: number) => transformBy([1, 0, 0, 1, x, y]),
+    scale: (x: number, y: number) => transformBy([x, 0, 0, y, 0, 0]),
+    rotate: (angle: number) => transformBy([Math.cos(angle), Math.sin(angle), -Math.sin(angle), Math.cos(angle), 0, 0]),
+    setTransform: (...matrix: Matrix) => { transform = matrix.length === 6 ? matrix : IDENTITY; },
+    resetTransform: () => { transform = IDENTITY; },
+    getImageData: (_x: number, _y: number, width: number, height: number) => imageData(width, height),
+    createImageData: (width: number, height: number) => imageData(width, height),
+    createLinearGradient: gradient,
+    createRadialGradient: gradient,
+    createPattern: () => ({}),
+    measureText: (text: string) => ({ width: text.length * 8 }),
+  };
+  // Anything else is a drawing call to ignore, or a setting to remember
+  return new Proxy(known, {
+    get: (target, key) => (key in target ? target[key] : () => {}),
+    set: (target, key, value) => {
+      target[key] = value;
+      return true;
+    },
+  }) as unknown as CanvasRenderingContext2D;
+};
+
+/**
+ * Makes canvases usable: getContext('2d') answers a recording context, and
+ * encoding answers a data URL that names the canvas's size.
+ */
+export const installFakeCanvas = () => {
+  const contexts = new WeakMap<HTMLCanvasElement, CanvasRenderingContext2D>();
+  HTMLCanvasElement.prototype.getContext = function (this: HTMLCanvasElement, type: string) {
+    if (type !== '2d') return null;
+    if (!contexts.has(this)) contexts.set(this, createContext(this));
+    return contexts.get(this);
+  } as HTMLCanvasElement['getContext'];
+  HTMLCanvasElement.prototype.toDataURL = function (this: HTMLCanvasElement) {
+    return `data:image/png;base64,${btoa(`${this.width}x${this.height}`)}`;
+  };
+  HTMLCanvasElement.prototype.toBlob = function (this: HTMLCanvasElement, callback: BlobCallback, type = 'image/png') {
+    callback(new Blob([`${this.width}x${this.height}`], { type }));
+  };
+};
@@ -0,0 +1,46 @@
+import { vi } from 'vitest';
+import { CaptionResult, CaptionStyleId, PhotoTags } from '../types';
+import type { CaptionRequestOptions } from '../services/captionService';
+
+// Stands in for requestCaption (services/captionService.ts) so tests decide
+// when each caption arrives, and in what order
+
+export interface PendingCaption {
+  image: string;
+  style: CaptionStyleId;
+  options: CaptionRequestOptions;
+  settled: boolean;
+  resolve: (result: CaptionResult) => void;
+}
+
+export const pendingCaptions: PendingCaption[] = [];
+
+/**
+ * Same contract as the real one: resolves once the test answers it, or with a
+ * "cancelled" error as soon as its signal aborts.
+ */
+export const requestCaption = vi.fn((image: string, style: CaptionStyleId, options: CaptionRequestOptions = {}) =>
+  new Promise<CaptionResult>(resolve => {
+    const request: PendingCaption = {
+      image,
+      style,
+      options,
+      settled: false,
+      resolve: (result) => {
+        if (request.settled) return;
+        request.settled = true;
+        resolve(result);
+      },
+    };
+    pendingCaptions.push(request);
+    options.signal?.addEventListener('abort', () =>
+      request.resolve({ status: 'error', error: 'cancelled', message: 'Caption request was cancelled' }));
+  }));
+
+export const answerCaption = (request: PendingCaption, caption: string, tags?: PhotoTags) =>
+  request.resolve({ status: 'success', caption, tags });
+
+export const resetCaptions = () => {
+  pendingCaptions.length = 0;
+  requestCaption.mockClear();
+};
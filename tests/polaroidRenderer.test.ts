@@ -0,0 +1,44 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Annotation, PhotoData } from '../types';
+import { renderPolaroid } from '../services/polaroidRenderer';
+import { drawnTexts } from './fakeCanvas';
+
+// jsdom never decodes images; the renderer only needs the photo's size
+vi.mock('../services/imageUtils', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../services/imageUtils')>()),
+  loadImage: async () => ({ width: 600, height: 800 }) as HTMLImageElement,
+}));
+
+const sticker: Annotation = { id: 's', type: 'sticker', emoji: '⭐', position: { x: 0.5, y: 0.5 }, size: 0.16, rotation: 10 };
+
+const photo = (overrides: Partial<PhotoData> = {}): PhotoData => ({
+  id: 'a',
+  imageData: 'data:image/png;base64,AAAA',
+  caption: 'Sunny day',
+  dateString: 'Oct 19, 2026',
+  timestamp: 1,
+  isDeveloping: false,
+  isStaged: false,
+  position: { x: 0, y: 0 },
+  rotation: 0,
+  annotations: [sticker],
+  ...overrides,
+});
+
+const stickerOn = (canvas: HTMLCanvasElement) => drawnTexts.find(text => text.text === '⭐' && text.canvas === canvas);
+
+describe('renderPolaroid', () => {
+  it('puts annotations where they sit on the card on the wall', async () => {
+    const canvas = await renderPolaroid(photo(), 2);
+    // The middle of the 240×320 card, not of the taller exported frame
+    expect(stickerOn(canvas)?.x).toBeCloseTo(240);
+    expect(stickerOn(canvas)?.y).toBeCloseTo(320);
+  });
+
+  it('places annotations on a strip by the strip card', async () => {
+    const canvas = await renderPolaroid(photo({ kind: 'strip', annotations: [{ ...sticker, position: { x: 0.5, y: 0.1 } }] }), 1);
+    // A tenth of the way down the 160×510 strip card
+    expect(stickerOn(canvas)?.x).toBeCloseTo(80);
+    expect(stickerOn(canvas)?.y).toBeCloseTo(51);
+  });
+});
@@ -0,0 +1,15 @@
+import { afterEach } from 'vitest';
+import { cleanup } from '@testing-library/react';
+import { installFakeCanvas, drawnImages, drawnTexts } from './fakeCanvas';
+
+// Browser pieces jsdom leaves out that every test leans on
+installFakeCanvas();
+HTMLMediaElement.prototype.play = () => Promise.resolve();
+HTMLMediaElement.prototype.pause = () => {};
+
+afterEach(() => {
+  cleanup();
+  drawnImages.length = 0;
+  drawnTexts.length = 0;
+  localStorage.clear();
+});
@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { readSnapshot, readSyncOp } from '../services/syncMessages';
+
+const stamp = { clock: 3, clientId: 'tab-a' };
+
+const photo = (overrides: Record<string, unknown> = {}) => ({
+  id: 'a',
+  imageData: 'data:image/png;base64,AAAA',
+  caption: 'Sunny day',
+  dateString: 'Oct 19, 2026',
+  timestamp: 1,
+  isDeveloping: false,
+  position: { x: 10, y: 20 },
+  rotation: 2,
+  ...overrides,
+});
+
+const update = (fields: Record<string, unknown>) => readSyncOp({ kind: 'update', id: 'a', fields, stamp });
+
+describe('readSyncOp', () => {
+  it('passes on puts, updates and deletes with clean fields', () => {
+    expect(readSyncOp({ kind: 'put', photo: photo({ aspect: '1:1', tags: { peopleCount: '2', setting: 'Beach', mood: 'calm' } }), stamp }))
+      .toEqual({ kind: 'put', photo: photo({ aspect: '1:1', tags: { peopleCount: 2, setting: 'beach', mood: 'calm', objects: [] } }), stamp });
+    expect(update({ caption: 'Later', filmStock: 'sepia' })).toEqual({ kind: 'update', id: 'a', fields: { caption: 'Later', filmStock: 'sepia' }, stamp });
+    expect(readSyncOp({ kind: 'delete', id: 'a', stamp })).toEqual({ kind: 'delete', id: 'a', stamp });
+  });
+
+  it('turns down annotations and tags that would break the wall', () => {
+    expect(update({ annotations: [null] })).toBeNull();
+    expect(update({ annotations: [{ id: 'd', type: 'doodle', color: '#dc2626', width: 0.01 }] })).toBeNull();
+    expect(update({ tags: { peopleCount: 1 } })).toBeNull();
+    expect(update({ annotations: [{ id: 's', type: 'sticker', emoji: '⭐', position: { x: 0.5, y: 0.5 }, size: 0.16, rotation: 0 }] }))
+      .not.toBeNull();
+  });
+
+  it('turns down ids, unknown fields and values that aren\'t known', () => {
+    expect(update({ id: 'b' })).toBeNull();
+    expect(update({ wallId: 'home' })).toBeNull();
+    expect(update({ aspect: '16:9' })).toBeNull();
+    expect(update({ kind: 'panorama' })).toBeNull();
+    expect(update({ captionStyle: 'shouty' })).toBeNull();
+    expect(update({ imageData: 42 })).toBeNull();
+    expect(readSyncOp({ kind: 'put', photo: photo({ imageData: undefined }), stamp })).toBeNull();
+    expect(readSyncOp({ kind: 'delete', id: 'a', stamp: { clock: 'soon' } })).toBeNull();
+  });
+});
+
+describe('readSnapshot', () => {
+  it('leaves out photos it can\'t read and keeps the rest', () => {
+    const clock = { fields: { caption: stamp } };
+    const snapshot = readSnapshot({
+      photos: [{ photo: photo(), clock }, { photo: photo({ id: 'b', annotations: [null] }), clock }, null],
+      tombstones: { c: stamp, d: 'gone' },
+      clock: 3,
+    });
+    expect(snapshot?.photos.map(synced => synced.photo.id)).toEqual(['a']);
+    expect(snapshot?.tombstones).toEqual({ c: stamp });
+    expect(readSnapshot({ photos: 'all of them', tombstones: {}, clock: 3 })).toBeNull();
+  });
+});
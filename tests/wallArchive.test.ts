@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { ARCHIVE_FORMAT, ARCHIVE_VERSION, ArchiveError, readArchive } from '../services/wallArchive';
+
+const photo = (overrides: Record<string, unknown> = {}) => ({
+  id: 'a',
+  imageData: 'data:image/png;base64,AAAA',
+  caption: 'Sunny day',
+  dateString: 'Oct 19, 2026',
+  timestamp: 1,
+  isDeveloping: true,
+  isStaged: false,
+  position: { x: 10, y: 20 },
+  rotation: 2,
+  mirrored: false,
+  ...overrides,
+});
+
+// jsdom's Blob can't read itself back, so hand over just what readArchive uses
+const textFile = (text: string) => ({ text: async () => text }) as Blob;
+
+const archiveFile = (contents: unknown) => textFile(JSON.stringify(contents));
+
+const archiveOf = (...photos: unknown[]) =>
+  archiveFile({ format: ARCHIVE_FORMAT, version: ARCHIVE_VERSION, exportedAt: '', photos });
+
+describe('readArchive', () => {
+  it('reads photos, developed and ready for the wall', async () => {
+    const [read] = await readArchive(archiveOf(photo({ tags: { peopleCount: 2, setting: 'Beach', mood: 'happy', objects: [] } })));
+    expect(read).toMatchObject({ id: 'a', caption: 'Sunny day', isDeveloping: false, position: { x: 10, y: 20 } });
+    expect(read.tags?.setting).toBe('beach');
+  });
+
+  it('offers a retry for captions that were still being written', async () => {
+    const [read] = await readArchive(archiveOf(photo({ captionStatus: 'pending' })));
+    expect(read.captionStatus).toBe('failed');
+  });
+
+  it('names the first field that is wrong', async () => {
+    await expect(readArchive(archiveOf(photo(), photo({ rotation: 'tilted', caption: 3 }))))
+      .rejects.toThrow('Photo 2: "caption" should be a string.');
+    await expect(readArchive(archiveOf(photo({ filmStock: 'kodachrome-64' }))))
+      .rejects.toThrow('"filmStock" should be a known film stock');
+    await expect(readArchive(archiveOf('not a photo'))).rejects.toThrow('"photo" should be an object');
+  });
+
+  it('turns away files that are not archives it can read', async () => {
+    await expect(readArchive(archiveFile({ photos: [] }))).rejects.toBeInstanceOf(ArchiveError);
+    await expect(readArchive(archiveFile({ format: ARCHIVE_FORMAT, photos: [] }))).rejects.toThrow('no version number');
+    await expect(readArchive(archiveFile({ format: ARCHIVE_FORMAT, version: ARCHIVE_VERSION + 1, photos: [] })))
+      .rejects.toThrow('newer version');
+    await expect(readArchive(textFile('{'))).rejects.toThrow("isn't valid JSON");
+  });
+});
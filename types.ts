@@ -10,9 +10,82 @@ export interface PhotoData {
   dateString: string;
   timestamp: number;
   isDeveloping: boolean;
+  development?: Development; // Timing of the developing look; photos from before it existed started at `timestamp`
   isStaged: boolean; // True if still in the camera slot
-  position: Position; // Screen coordinates
+  wallId?: string; // The wall it hangs on; set when it leaves the camera
+  position: Position; // Wall coordinates, independent of zoom, pan and window size
   rotation: number; // Random rotation for natural look
+  zIndex?: number; // Stacking order on the wall, higher is on top
+  captionStyle?: CaptionStyleId; // Voice used for the caption, kept when regenerating
+  filmStock?: FilmStockId; // Look baked into imageData at capture time
+  mirrored?: boolean; // Show flipped like a selfie preview; imageData itself is always true-orientation
+  aspect?: CaptureAspect; // Shape of the photo window, 3:4 when missing
+  kind?: PhotoKind; // A single shot unless set
+  captionStatus?: CaptionStatus; // Missing on photos saved before statuses existed; treat as 'ready'
+  captionError?: CaptionErrorKind; // Why the last caption attempt failed
+  captionLanguage?: string; // BCP 47 code the caption is written in; unknown on photos from before languages
+  translations?: Record<string, string>; // The caption in other languages, by code, for toggling
+  tags?: PhotoTags; // What the captioning model saw; missing when the provider gives none
+  annotations?: Annotation[]; // Drawn over the card, bottom to top; imageData stays untouched
+}
+
+export interface Development {
+  startedAt: number; // When the photo came out of the camera
+  durationMs: number; // How long it takes to develop untouched
+  shakenMs?: number; // Time saved by shaking the photo while dragging it
+}
+
+// Annotation coordinates are fractions of the card's width and height, so they
+// fit any rendering of the card; sizes are fractions of its width
+export type Annotation =
+  | { id: string; type: 'doodle'; color: string; width: number; points: Position[] }
+  | { id: string; type: 'sticker'; emoji: string; position: Position; size: number; rotation: number }
+  | { id: string; type: 'note'; text: string; color: string; position: Position; size: number; rotation: number };
+
+export type AnnotationTool = 'pen' | 'sticker' | 'note' | 'eraser';
+
+export interface PhotoTags {
+  peopleCount: number;
+  setting: string; // Where it was taken, e.g. "beach" or "kitchen"
+  mood: string; // e.g. "joyful", "cosy"
+  objects: string[]; // Notable things in the frame
+}
+
+export type WallBackgroundId = 'cream' | 'cork' | 'chalkboard' | 'graph' | 'night';
+
+// A named wall (album); its photos point back to it through wallId
+export interface WallData {
+  id: string;
+  name: string;
+  createdAt: number;
+  background: WallBackgroundId;
+  coverPhotoId?: string; // The wall's first photo stands in when missing
+  captionLanguage?: string; // New captions are written in it; the browser's language when missing
+  syncRoom?: string; // Shared live with everyone who joins this room on the relay server
+}
+
+export type CaptionStyleId = 'warm' | 'haiku' | 'roast' | 'travel' | 'plain' | 'birthday';
+
+export type FilmStockId = 'none' | 'polaroid' | 'sepia' | 'bw' | 'cross' | 'lightLeak';
+
+export type CaptureAspect = '3:4' | '1:1' | '4:3';
+
+export type CaptureResolution = 'standard' | 'high' | 'max';
+
+export type PhotoKind = 'single' | 'strip'; // A strip is four frames composed into one tall photo
+
+export type CaptureMode = 'single' | 'burst' | 'strip';
+
+export type SelfTimer = 'off' | '3s' | '10s';
+
+export type DevelopSpeed = 'instant' | 'quick' | 'instax' | 'polaroid';
+
+export interface CameraSettings {
+  deviceId?: string; // Browser default camera when missing
+  aspect: CaptureAspect;
+  resolution: CaptureResolution;
+  mirrorSelfies: boolean; // Keep front-camera photos flipped the way the preview shows them
+  developSpeed: DevelopSpeed; // How long new photos take to develop
 }
 
 export enum AppStatus {
@@ -20,4 +93,46 @@ export enum AppStatus {
   CAMERA_READY = 'CAMERA_READY',
   TAKING_PHOTO = 'TAKING_PHOTO',
   ERROR = 'ERROR'
-}
\ No newline at end of file
+}
+
+export type CaptionStatus = 'pending' | 'ready' | 'failed';
+
+export type CaptionErrorKind =
+  | 'rate_limited'
+  | 'auth'
+  | 'missing_key'
+  | 'timeout'
+  | 'network'
+  | 'too_large'
+  | 'cancelled'
+  | 'unknown';
+
+// What a provider returns for one photo
+export interface CaptionOutput {
+  caption: string;
+  tags?: PhotoTags;
+}
+
+export type CaptionResult =
+  | { status: 'success'; caption: string; tags?: PhotoTags }
+  | { status: 'error'; error: CaptionErrorKind; message: string };
+
+export interface CaptionProvider {
+  id: string;
+  /**
+   * Writes a short caption for a photo, plus tags when the backend can describe it.
+   * Failures are thrown as a CaptionError describing what went wrong.
+   * @param base64Image The photo as a base64 data URL.
+   * @param style The caption voice to write in.
+   * @param signal Aborts the request when the caption is no longer wanted.
+   * @param language A BCP 47 language code for the caption.
+   */
+  generateCaption: (base64Image: string, style: CaptionStyleId, signal?: AbortSignal, language?: string) => Promise<CaptionOutput>;
+  /**
+   * Translates a caption, keeping its voice. Missing when the backend can't translate.
+   * @param text The caption to translate.
+   * @param language A BCP 47 language code to translate into.
+   * @param signal Aborts the request when the translation is no longer wanted.
+   */
+  translateCaption?: (text: string, language: string, signal?: AbortSignal) => Promise<string>;
+}
@@ -1,18 +1,26 @@
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
+import { captionEndpointPlugin } from './server/captionEndpoint';
 
-export default defineConfig(({ mode }) => {
+export default defineConfig(({ mode, isSsrBuild }) => {
     const env = loadEnv(mode, '.', '');
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      // `vite build --ssr` bundles the two Node servers: the app with its caption endpoint, and the sync relay
+      build: isSsrBuild ? {
+        outDir: 'dist-ssr',
+        rollupOptions: {
+          input: { appServer: 'server/appServer.ts', syncServer: 'server/syncServer.ts' },
+        },
+      } : undefined,
+      // Keys stay in here, on the server; only what's defined below reaches the page
+      plugins: [react(), captionEndpointPlugin(env)],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.SYNC_SERVER_URL': JSON.stringify(env.SYNC_SERVER_URL)
       },
       resolve: {
         alias: {